@@ -0,0 +1,628 @@
+import path from 'path';
+import { Base64Processor } from './commands/base64/logic';
+import { Base64DecodingResult, Base64EncodingResult, Base64Options } from './commands/base64/types';
+import { CharacterDetector } from './commands/chars/logic';
+import {
+	CharacterDetectorOptions,
+	CharacterIssue,
+	CharStats,
+	IssueSeverity,
+	ScriptType,
+	getSeverityLevel,
+	parseSeverity
+} from './commands/chars/types';
+import { AdvancedCommentRemover } from './commands/comments/advanced-logic';
+import { DepsProcessor } from './commands/deps/logic';
+import { AnalysisType, DepsAnalysisResult, DepsProcessorOptions } from './commands/deps/types';
+import { ImportsProcessor } from './commands/imports/logic';
+import { ImportsProcessorOptions, ImportsStats } from './commands/imports/types';
+import { GuardStyle } from './commands/logs/log-guard';
+import { LogLevel } from './commands/logs/log-levels';
+import { LogsProcessor } from './commands/logs/logic';
+import { SvgProcessor } from './commands/svg/logic';
+import { SvgOptimizationResult, SvgOptions, SvgStats } from './commands/svg/types';
+import {
+	CommentStats,
+	FileStats,
+	LineRange,
+	Logger,
+	RawSourceMap,
+	RunJournal,
+	SemanticVerifier,
+	SyntaxValidator,
+	createFilePatterns,
+	findFiles,
+	readFile,
+	writeFile
+} from './shared';
+
+export const DEFAULT_EXTENSIONS = {
+	comments: [
+		'js',
+		'ts',
+		'jsx',
+		'tsx',
+		'vue',
+		'svelte',
+		'astro',
+		'html',
+		'css',
+		'scss',
+		'less',
+		'sass'
+	],
+	logs: ['js', 'ts', 'jsx', 'tsx', 'vue', 'svelte', 'astro'],
+	imports: ['js', 'ts', 'jsx', 'tsx', 'vue', 'svelte'],
+	chars: [
+		'js',
+		'ts',
+		'jsx',
+		'tsx',
+		'vue',
+		'svelte',
+		'astro',
+		'html',
+		'css',
+		'scss',
+		'less',
+		'sass',
+		'py',
+		'java',
+		'c',
+		'cpp',
+		'cs',
+		'php',
+		'rb',
+		'go',
+		'rs'
+	],
+	svg: ['svg']
+};
+
+export interface SourceOptions {
+	code?: string;
+	filePath?: string;
+	paths?: string[];
+	extensions?: string[];
+	exclude?: string[];
+	cwd?: string;
+	write?: boolean;
+	sourceMap?: boolean;
+}
+
+export interface FileResult {
+	file: string;
+	original: string;
+	content: string;
+	modified: boolean;
+	map?: RawSourceMap;
+}
+
+export interface CommandResult<TFile extends FileResult, TStats> {
+	files: TFile[];
+	stats: TStats;
+}
+
+export interface CommentsApiOptions extends SourceOptions {
+	keep?: string[];
+	preserveFramework?: boolean;
+	preserveDevelopment?: boolean;
+	preserveTooling?: boolean;
+	preserveDocumentation?: boolean;
+	normalizeLayout?: boolean;
+	verify?: boolean;
+	lineRanges?: LineRange[];
+}
+
+export interface CommentsFileResult extends FileResult {
+	removed: number;
+	preserved: number;
+}
+
+export type CommentsApiResult = CommandResult<CommentsFileResult, CommentStats>;
+
+export interface LogsApiOptions extends SourceOptions {
+	keep?: string[];
+	preserveDebug?: boolean;
+	preserveError?: boolean;
+	preserveWarn?: boolean;
+	minLevel?: LogLevel;
+	allow?: string[];
+	deny?: string[];
+	ast?: boolean;
+	callees?: string[];
+	replaceWith?: string;
+	guard?: boolean | GuardStyle;
+	verify?: boolean;
+	lineRanges?: LineRange[];
+}
+
+export interface LogsFileResult extends FileResult {
+	removed: number;
+	preserved: number;
+	replaced: number;
+	guarded: number;
+}
+
+export type LogsApiResult = CommandResult<LogsFileResult, FileStats>;
+
+export interface ImportsApiOptions
+	extends SourceOptions,
+		Omit<ImportsProcessorOptions, 'extensions' | 'verbose' | 'onWarning'> {}
+
+export interface ImportsFileResult extends FileResult {
+	optimized: number;
+	unusedRemoved: number;
+	duplicatesMerged: number;
+	pathsConverted: number;
+	warnings: string[];
+}
+
+export interface ImportsApiResult extends CommandResult<ImportsFileResult, ImportsStats> {
+	warnings: string[];
+}
+
+export interface CharsApiOptions extends SourceOptions, CharacterDetectorOptions {
+	fix?: boolean;
+	severity?: IssueSeverity | string;
+}
+
+export interface CharsFileResult extends FileResult {
+	issues: CharacterIssue[];
+	fixed: number;
+}
+
+export type CharsApiResult = CommandResult<CharsFileResult, CharStats>;
+
+export interface SvgApiOptions
+	extends SourceOptions,
+		Omit<SvgOptions, 'extensions' | 'exclude' | 'dryRun' | 'watch' | 'quiet' | 'json'> {}
+
+export interface SvgFileResult extends FileResult {
+	optimization: SvgOptimizationResult | null;
+	error?: string;
+}
+
+export type SvgApiResult = CommandResult<
+	SvgFileResult,
+	Pick<SvgStats, 'filesProcessed' | 'bytesOriginal' | 'bytesOptimized' | 'bytesSaved' | 'errors'>
+>;
+
+export type Base64ApiOptions = Pick<Base64Options, 'output'> &
+	(
+		| { mode?: 'encode'; filePath: string }
+		| { mode?: 'encode'; data: Buffer | string; mimeType: string }
+		| { mode: 'decode'; input: string; write?: boolean }
+	);
+
+export type Base64ApiResult =
+	| { mode: 'encode'; result: Base64EncodingResult }
+	| {
+			mode: 'decode';
+			buffer: Buffer;
+			result: Omit<Base64DecodingResult, 'outputPath'> & { outputPath?: string };
+	  };
+
+export interface DepsApiOptions extends Omit<DepsProcessorOptions, 'onWarning'> {
+	cwd?: string;
+	analysisTypes?: AnalysisType[];
+}
+
+export interface DepsApiResult {
+	analysis: DepsAnalysisResult;
+	warnings: string[];
+}
+
+export interface CrapifyCommands {
+	comments: { options: CommentsApiOptions; result: CommentsApiResult };
+	logs: { options: LogsApiOptions; result: LogsApiResult };
+	imports: { options: ImportsApiOptions; result: ImportsApiResult };
+	chars: { options: CharsApiOptions; result: CharsApiResult };
+	svg: { options: SvgApiOptions; result: SvgApiResult };
+	base64: { options: Base64ApiOptions; result: Base64ApiResult };
+	deps: { options: DepsApiOptions; result: DepsApiResult };
+}
+
+export type CrapifyCommandName = keyof CrapifyCommands;
+
+export async function crapify<C extends CrapifyCommandName>(
+	command: C,
+	options: CrapifyCommands[C]['options']
+): Promise<CrapifyCommands[C]['result']> {
+	const runners: {
+		[K in CrapifyCommandName]: (
+			options: CrapifyCommands[K]['options']
+		) => Promise<CrapifyCommands[K]['result']>;
+	} = {
+		comments: removeComments,
+		logs: removeLogs,
+		imports: optimizeImports,
+		chars: detectCharacters,
+		svg: optimizeSvg,
+		base64: convertBase64,
+		deps: analyzeDependencies
+	};
+
+	const runner = runners[command] as (
+		options: CrapifyCommands[C]['options']
+	) => Promise<CrapifyCommands[C]['result']>;
+	if (!runner) {
+		throw new Error(`Unknown command: ${command}`);
+	}
+	return runner(options);
+}
+
+export async function removeComments(options: CommentsApiOptions): Promise<CommentsApiResult> {
+	const processor = new AdvancedCommentRemover(options.keep || [], {
+		logger: createSilentLogger(),
+		preserveFramework: options.preserveFramework,
+		preserveDevelopment: options.preserveDevelopment,
+		preserveTooling: options.preserveTooling,
+		preserveDocumentation: options.preserveDocumentation,
+		normalizeLayout: options.normalizeLayout,
+		useEnhancedTokenizer: true,
+		sourceMap: options.sourceMap
+	});
+	const validator = new SyntaxValidator();
+	const verifier = options.verify ? new SemanticVerifier() : null;
+	const stats: CommentStats = {
+		filesProcessed: 0,
+		commentsRemoved: 0,
+		commentsPreserved: 0,
+		errors: []
+	};
+
+	const files = await processSources<CommentsFileResult>(
+		'comments',
+		options,
+		DEFAULT_EXTENSIONS.comments,
+		stats,
+		(content, file) => {
+			const result = processor.removeComments(content, file, options.lineRanges);
+			validator.validate(file, content, result.content);
+			verifier?.verify(file, content, result.content);
+			stats.commentsRemoved += result.removed;
+			stats.commentsPreserved += result.preserved;
+			return {
+				content: result.content,
+				modified: result.modified,
+				removed: result.removed,
+				preserved: result.preserved,
+				map: result.map
+			};
+		}
+	);
+
+	return { files, stats };
+}
+
+export async function removeLogs(options: LogsApiOptions): Promise<LogsApiResult> {
+	if (options.verify && (options.replaceWith || options.guard)) {
+		throw new Error('"verify" cannot be combined with "replaceWith" or "guard"');
+	}
+
+	const processor = new LogsProcessor({
+		keep: options.keep,
+		preserveDebug: options.preserveDebug,
+		preserveError: options.preserveError,
+		preserveWarn: options.preserveWarn,
+		minLevel: options.minLevel,
+		allow: options.allow,
+		deny: options.deny,
+		ast: options.ast,
+		callees: options.callees,
+		replaceWith: options.replaceWith,
+		guard: options.guard,
+		sourceMap: options.sourceMap
+	});
+	const validator = new SyntaxValidator();
+	const verifier = options.verify ? new SemanticVerifier() : null;
+	const stats: FileStats = {
+		filesProcessed: 0,
+		itemsRemoved: 0,
+		itemsPreserved: 0,
+		errors: []
+	};
+
+	const files = await processSources<LogsFileResult>(
+		'logs',
+		options,
+		DEFAULT_EXTENSIONS.logs,
+		stats,
+		(content, file) => {
+			const result = processor.processFile(content, options.lineRanges, { source: file });
+			validator.validate(file, content, result.content);
+			verifier?.verify(
+				file,
+				content,
+				result.content,
+				result.calls.filter(call => call.action === 'removed')
+			);
+			stats.itemsRemoved += result.removed;
+			stats.itemsPreserved += result.preserved;
+			return {
+				content: result.content,
+				modified: result.modified,
+				removed: result.removed,
+				preserved: result.preserved,
+				replaced: result.replaced,
+				guarded: result.guarded,
+				map: result.map
+			};
+		}
+	);
+
+	return { files, stats };
+}
+
+export async function optimizeImports(options: ImportsApiOptions): Promise<ImportsApiResult> {
+	const { code, filePath, paths, extensions, exclude, cwd, write, ...processorOptions } = options;
+	const stats: ImportsStats = {
+		filesProcessed: 0,
+		importsOptimized: 0,
+		unusedRemoved: 0,
+		duplicatesMerged: 0,
+		pathsConverted: 0,
+		errors: []
+	};
+
+	const warnings: string[] = [];
+	const processor = new ImportsProcessor({
+		...processorOptions,
+		onWarning: message => warnings.push(message)
+	});
+	const validator = new SyntaxValidator();
+	const files = await processSources<ImportsFileResult>(
+		'imports',
+		options,
+		DEFAULT_EXTENSIONS.imports,
+		stats,
+		(content, file) => {
+			const result = processor.processFile(content, file);
+			if (result.errors && result.errors.length > 0) {
+				throw new Error(result.errors.join('; '));
+			}
+			validator.validate(file, content, result.content);
+
+			stats.importsOptimized += result.optimized;
+			stats.unusedRemoved += result.unusedRemoved;
+			stats.duplicatesMerged += result.duplicatesMerged;
+			stats.pathsConverted += result.pathsConverted;
+			return {
+				content: result.content,
+				modified: result.modified,
+				optimized: result.optimized,
+				unusedRemoved: result.unusedRemoved,
+				duplicatesMerged: result.duplicatesMerged,
+				pathsConverted: result.pathsConverted,
+				warnings: result.warnings || [],
+				map: result.map
+			};
+		}
+	);
+
+	return { files, stats, warnings };
+}
+
+export async function detectCharacters(options: CharsApiOptions): Promise<CharsApiResult> {
+	const detector = new CharacterDetector(createSilentLogger(), {
+		strict: options.strict,
+		showContext: options.showContext,
+		ignoreStrings: options.ignoreStrings,
+		ignoreComments: options.ignoreComments,
+		sourceMap: options.sourceMap
+	});
+	const minSeverity =
+		typeof options.severity === 'string'
+			? parseSeverity(options.severity)
+			: options.severity || IssueSeverity.LOW;
+	const stats: CharStats = {
+		filesProcessed: 0,
+		itemsRemoved: 0,
+		itemsPreserved: 0,
+		charactersFound: 0,
+		charactersFixed: 0,
+		scriptTypes: {} as Record<ScriptType, number>,
+		errors: []
+	};
+
+	for (const scriptType of Object.values(ScriptType)) {
+		stats.scriptTypes[scriptType] = 0;
+	}
+
+	const sourceOptions = options.fix ? options : { ...options, write: false };
+	const files = await processSources<CharsFileResult>(
+		'chars',
+		sourceOptions,
+		DEFAULT_EXTENSIONS.chars,
+		stats,
+		(content, file) => {
+			const result = options.fix
+				? detector.fixCharacters(content, file)
+				: detector.detectCharacters(content, file);
+			const issues = result.issues.filter(
+				issue => getSeverityLevel(issue.severity) >= getSeverityLevel(minSeverity)
+			);
+
+			stats.charactersFound += issues.length;
+			stats.charactersFixed += result.fixed;
+			for (const [scriptType, count] of Object.entries(detector.getScriptTypeStats(issues))) {
+				stats.scriptTypes[scriptType as ScriptType] += count;
+			}
+
+			return {
+				content: result.content,
+				modified: result.modified,
+				issues,
+				fixed: result.fixed,
+				map: result.map
+			};
+		}
+	);
+
+	return { files, stats };
+}
+
+export async function optimizeSvg(options: SvgApiOptions): Promise<SvgApiResult> {
+	const { code, filePath, paths, extensions, exclude, cwd, write, ...svgOptions } = options;
+	const processor = new SvgProcessor(createSilentLogger());
+	const sources = await collectSources(options, DEFAULT_EXTENSIONS.svg);
+	const journal = write ? createJournal('svg', options) : null;
+	const stats: SvgApiResult['stats'] = {
+		filesProcessed: 0,
+		bytesOriginal: 0,
+		bytesOptimized: 0,
+		bytesSaved: 0,
+		errors: []
+	};
+	const files: SvgFileResult[] = [];
+
+	for (const source of sources) {
+		let original = '';
+		try {
+			original = source.content ?? (await readFile(source.file));
+			const optimization = await processor.processSvgCode(original, svgOptions);
+			const modified = optimization.optimizedContent !== original;
+
+			if (modified && options.write && source.content === undefined) {
+				await writeFile(source.file, optimization.optimizedContent, journal);
+			}
+
+			stats.filesProcessed++;
+			stats.bytesOriginal += optimization.originalSize;
+			stats.bytesOptimized += optimization.optimizedSize;
+			stats.bytesSaved += optimization.bytesSaved;
+			files.push({
+				file: source.file,
+				original,
+				content: optimization.optimizedContent,
+				modified,
+				optimization: { ...optimization, inputPath: source.file, outputPath: source.file }
+			});
+		} catch (error) {
+			const message = (error as Error).message;
+			stats.errors.push({ file: source.file, error: message });
+			files.push({
+				file: source.file,
+				original,
+				content: original,
+				modified: false,
+				optimization: null,
+				error: message
+			});
+		}
+	}
+
+	return { files, stats };
+}
+
+export async function convertBase64(options: Base64ApiOptions): Promise<Base64ApiResult> {
+	const processor = new Base64Processor(createSilentLogger());
+
+	if (options.mode === 'decode') {
+		if (options.write) {
+			const result = await processor.decodeBase64(options.input, options.output);
+			const { buffer } = processor.decodeToBuffer(options.input);
+			return { mode: 'decode', buffer, result };
+		}
+
+		const { buffer, base64Data, mimeType, detectedFormat } = processor.decodeToBuffer(
+			options.input
+		);
+		return {
+			mode: 'decode',
+			buffer,
+			result: {
+				originalSize: base64Data.length,
+				decodedSize: buffer.length,
+				mimeType,
+				detectedFormat
+			}
+		};
+	}
+
+	if ('data' in options) {
+		const buffer = typeof options.data === 'string' ? Buffer.from(options.data) : options.data;
+		return { mode: 'encode', result: processor.encodeBuffer(buffer, options.mimeType) };
+	}
+
+	return { mode: 'encode', result: await processor.encodeFile(options.filePath, {}) };
+}
+
+export async function analyzeDependencies(options: DepsApiOptions = {}): Promise<DepsApiResult> {
+	const { cwd, analysisTypes, ...processorOptions } = options;
+
+	const warnings: string[] = [];
+	const processor = new DepsProcessor(
+		{ ...processorOptions, verbose: false, onWarning: message => warnings.push(message) },
+		path.resolve(cwd || process.cwd())
+	);
+	const analysis = await processor.analyzeProject(analysisTypes);
+
+	return { analysis, warnings };
+}
+
+interface Source {
+	file: string;
+	content?: string;
+}
+
+async function collectSources(
+	options: SourceOptions,
+	defaultExtensions: string[]
+): Promise<Source[]> {
+	if (options.code !== undefined) {
+		return [{ file: options.filePath || `input.${defaultExtensions[0]}`, content: options.code }];
+	}
+
+	if (!options.paths || options.paths.length === 0) {
+		throw new Error('Either "code" or "paths" must be provided');
+	}
+
+	const cwd = path.resolve(options.cwd || process.cwd());
+	const patterns = createFilePatterns(
+		options.paths.map(p => path.resolve(cwd, p)),
+		options.extensions || defaultExtensions
+	);
+	const files = await findFiles(patterns, options.exclude || []);
+
+	return files.map(file => ({ file }));
+}
+
+function createJournal(command: string, options: SourceOptions): RunJournal {
+	return new RunJournal(command, path.resolve(options.cwd || process.cwd()));
+}
+
+async function processSources<T extends FileResult>(
+	command: string,
+	options: SourceOptions,
+	defaultExtensions: string[],
+	stats: { filesProcessed: number; errors: Array<{ file: string; error: string }> },
+	transform: (content: string, file: string) => Omit<T, 'file' | 'original'>
+): Promise<T[]> {
+	const sources = await collectSources(options, defaultExtensions);
+	const journal = options.write ? createJournal(command, options) : null;
+	const results: T[] = [];
+
+	for (const source of sources) {
+		try {
+			const original = source.content ?? (await readFile(source.file));
+			const result = { file: source.file, original, ...transform(original, source.file) } as T;
+
+			if (result.modified && options.write && source.content === undefined) {
+				await writeFile(source.file, result.content, journal);
+			}
+
+			stats.filesProcessed++;
+			results.push(result);
+		} catch (error) {
+			stats.errors.push({ file: source.file, error: (error as Error).message });
+		}
+	}
+
+	return results;
+}
+
+function createSilentLogger(): Logger {
+	return new Logger(false, true, false, true);
+}
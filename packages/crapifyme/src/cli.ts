@@ -7,7 +7,8 @@ import { depsCommand } from './commands/deps';
 import { importsCommand } from './commands/imports';
 import { logsCommand } from './commands/logs';
 import { svgCommand } from './commands/svg';
-import { showBanner } from './shared';
+import { undoCommand } from './commands/undo';
+import { ExitCode, Logger, applyProjectConfig, showBanner } from './shared';
 
 const pkg = require('../package.json');
 
@@ -33,17 +34,33 @@ Examples:
   $ crapifyme base64 decode <base64>    # Decode base64 to file
   $ crapifyme chars --fix --strict      # Fix non-ASCII characters with strict mode
   $ crapifyme comments --dry-run .      # Preview comment changes
+  $ crapifyme --check logs --max-logs 0 # Fail CI if any console.log would be removed
   $ crapifyme logs --force              # Remove logs without VCS check
+  $ crapifyme logs --staged             # Only process files staged for commit
   $ crapifyme imports --style=absolute  # Convert to absolute imports  
   $ crapifyme deps --security-only      # Only check security vulnerabilities
   $ crapifyme svg --preset=aggressive   # Maximize SVG compression with aggressive preset
+  $ crapifyme undo                      # Restore the files changed by the last run
 
 Global Options:
   --dry-run                Preview changes without modifying files
+  --check                  Never write; exit with code 1 when anything would change, or past a command's threshold
   --force                  Proceed without version control detection
   --verbose                Detailed output
   --quiet                  Suppress output
   --json                   Output as JSON
+  --staged                 Only process files staged in git
+  --changed-since <ref>    Only process files changed since a git ref
+  --since-last-commit      Only process uncommitted and untracked files
+  --config-file <path>     Use a specific configuration file
+  --no-config              Ignore .crapifyrc / crapify.config.* files
+
+Configuration:
+  Options are read from the nearest .crapifyrc(.json|.yaml|.yml|.js|.cjs) or
+  crapify.config.(json|yaml|yml|js|cjs|mjs|ts|cts|mts) found walking up from the
+  current directory. Top-level keys apply to every command, per-command sections
+  (comments, logs, imports, chars, svg, deps, base64) override them, and flags
+  given on the command line override both.
 
 Visit https://crapify.me for more information and documentation.
 `
@@ -51,10 +68,36 @@ Visit https://crapify.me for more information and documentation.
 
 program
 	.option('--dry-run', 'Preview changes without modifying files')
+	.option(
+		'--check',
+		'Report what would change without writing; exit with code 1 when anything would change, or when a threshold such as --max-logs is exceeded'
+	)
 	.option('--force', 'Proceed without version control detection')
 	.option('-v, --verbose', 'Detailed output')
 	.option('-q, --quiet', 'Suppress output')
-	.option('--json', 'Output as JSON');
+	.option('--json', 'Output as JSON')
+	.option('--staged', 'Only process files staged in git')
+	.option('--changed-since <ref>', 'Only process files changed since a git ref')
+	.option('--since-last-commit', 'Only process files changed since the last commit')
+	.option('--config-file <path>', 'Use a specific configuration file')
+	.option('--no-config', 'Ignore project configuration files');
+
+program.hook('preAction', async (_thisCommand, actionCommand) => {
+	try {
+		const loaded = await applyProjectConfig(program, actionCommand);
+		const globalOptions = program.opts();
+
+		if (loaded && globalOptions.verbose) {
+			const logger = new Logger(globalOptions.verbose, globalOptions.quiet, globalOptions.json);
+			logger.info(`Using configuration from ${loaded.filePath}`);
+		}
+	} catch (error) {
+		const globalOptions = program.opts();
+		const logger = new Logger(globalOptions.verbose, globalOptions.quiet, globalOptions.json);
+		logger.error(`Invalid configuration:\n${(error as Error).message}`);
+		process.exit(ExitCode.Error);
+	}
+});
 
 program.addCommand(base64Command);
 program.addCommand(charsCommand);
@@ -63,9 +106,10 @@ program.addCommand(depsCommand);
 program.addCommand(importsCommand);
 program.addCommand(logsCommand);
 program.addCommand(svgCommand);
+program.addCommand(undoCommand);
 
 if (process.argv.length <= 2) {
 	program.help();
 }
 
-program.parse();
+program.parseAsync();
@@ -140,7 +140,8 @@ async function handleDecode(
 			logger.info('Decoding base64 string');
 		}
 
-		const result = await processor.decodeBase64(base64String, options.output);
+		const previewOnly = globalOptions.dryRun || globalOptions.check;
+		const result = await processor.decodeBase64(base64String, options.output, !previewOnly);
 
 		const stats: Base64Stats = {
 			filesProcessed: 1,
@@ -157,7 +158,9 @@ async function handleDecode(
 		} else {
 			if (!globalOptions.quiet) {
 				showComplete();
-				logger.success(`Decoded to: ${result.outputPath}`);
+				logger.success(
+					previewOnly ? `Would decode to: ${result.outputPath}` : `Decoded to: ${result.outputPath}`
+				);
 
 				if (globalOptions.verbose) {
 					console.log(`  ┣ Base64 size: ${processor.formatSize(result.originalSize)}`);
@@ -2,7 +2,7 @@ import fs from 'fs/promises';
 import fssync from 'fs';
 import path from 'path';
 import { lookup as mimeTypeLookup } from 'mime-types';
-import { Logger } from '../../shared';
+import { Logger, RunJournal } from '../../shared';
 import {
 	Base64EncodingResult,
 	Base64DecodingResult,
@@ -28,10 +28,13 @@ export class Base64Processor {
 		}
 
 		const fileBuffer = await fs.readFile(absolutePath);
-		const originalSize = fileBuffer.length;
-
 		const mimeType = mimeTypeLookup(absolutePath) || `image/${ext === 'svg' ? 'svg+xml' : ext}`;
 
+		return this.encodeBuffer(fileBuffer, mimeType);
+	}
+
+	encodeBuffer(fileBuffer: Buffer, mimeType: string): Base64EncodingResult {
+		const originalSize = fileBuffer.length;
 		const rawBase64 = fileBuffer.toString('base64');
 		const base64Size = rawBase64.length;
 
@@ -51,7 +54,48 @@ export class Base64Processor {
 		};
 	}
 
-	async decodeBase64(input: string, outputPath?: string): Promise<Base64DecodingResult> {
+	async decodeBase64(
+		input: string,
+		outputPath?: string,
+		write: boolean = true
+	): Promise<Base64DecodingResult> {
+		const { buffer, base64Data, mimeType, detectedFormat } = this.decodeToBuffer(input);
+		const decodedSize = buffer.length;
+
+		let finalOutputPath: string;
+		if (outputPath) {
+			finalOutputPath = path.resolve(outputPath);
+		} else {
+			const timestamp = Date.now();
+			const extension = detectedFormat || 'bin';
+			finalOutputPath = path.resolve(`decoded_${timestamp}.${extension}`);
+		}
+
+		if (write) {
+			const outputDir = path.dirname(finalOutputPath);
+			await fs.mkdir(outputDir, { recursive: true });
+
+			const journal = new RunJournal('base64');
+			const snapshot = await journal.snapshot(finalOutputPath);
+			await fs.writeFile(finalOutputPath, buffer);
+			await journal.record(snapshot, buffer);
+		}
+
+		return {
+			outputPath: finalOutputPath,
+			originalSize: base64Data.length,
+			decodedSize,
+			mimeType,
+			detectedFormat
+		};
+	}
+
+	decodeToBuffer(input: string): {
+		buffer: Buffer;
+		base64Data: string;
+		mimeType?: string;
+		detectedFormat?: string;
+	} {
 		let base64Data: string;
 		let mimeType: string | undefined;
 		let detectedFormat: string | undefined;
@@ -76,27 +120,9 @@ export class Base64Processor {
 			throw new Error('Invalid base64 string');
 		}
 
-		const buffer = Buffer.from(base64Data, 'base64');
-		const decodedSize = buffer.length;
-
-		let finalOutputPath: string;
-		if (outputPath) {
-			finalOutputPath = path.resolve(outputPath);
-		} else {
-			const timestamp = Date.now();
-			const extension = detectedFormat || 'bin';
-			finalOutputPath = path.resolve(`decoded_${timestamp}.${extension}`);
-		}
-
-		const outputDir = path.dirname(finalOutputPath);
-		await fs.mkdir(outputDir, { recursive: true });
-
-		await fs.writeFile(finalOutputPath, buffer);
-
 		return {
-			outputPath: finalOutputPath,
-			originalSize: base64Data.length,
-			decodedSize,
+			buffer: Buffer.from(base64Data, 'base64'),
+			base64Data,
 			mimeType,
 			detectedFormat
 		};
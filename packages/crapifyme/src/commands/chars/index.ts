@@ -1,16 +1,42 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import {
 	Logger,
 	findFiles,
 	createFilePatterns,
+	getGitScopedFiles,
+	GitError,
+	createReporter,
+	ReporterError,
+	loadBaseline,
+	BaselineError,
+	DEFAULT_BASELINE_FILE,
 	readFile,
 	writeFile,
 	detectVersionControl,
 	ExitCode,
-	showComplete
+	showComplete,
+	createDiffCollector,
+	DiffError,
+	formatDiff,
+	FindingLevel,
+	RunJournal
 } from '../../shared';
 import { CharacterDetector } from './logic';
-import { CharStats, ScriptType, IssueSeverity, CharacterDetectorOptions } from './types';
+import {
+	CharStats,
+	ScriptType,
+	IssueSeverity,
+	CharacterDetectorOptions,
+	parseSeverity,
+	getSeverityLevel
+} from './types';
+
+const CHARS_REPORT_LEVELS: Record<IssueSeverity, FindingLevel> = {
+	[IssueSeverity.CRITICAL]: 'error',
+	[IssueSeverity.HIGH]: 'error',
+	[IssueSeverity.MEDIUM]: 'warning',
+	[IssueSeverity.LOW]: 'note'
+};
 
 export const charsCommand = new Command('chars')
 	.description('Detect and fix non-Latin characters that may cause encoding issues')
@@ -32,11 +58,29 @@ export const charsCommand = new Command('chars')
 		'Minimum severity level to report (low,medium,high,critical)',
 		'low'
 	)
+	.addOption(
+		new Option(
+			'--fail-on-severity <level>',
+			'Exit with code 1 only for issues at or above this severity'
+		).choices(Object.values(IssueSeverity))
+	)
+	.option('--diff', 'Show --fix changes as a unified diff instead of writing them')
+	.option(
+		'--diff-output <file>',
+		'Save --fix changes as a unified diff to <file> instead of writing them'
+	)
+	.option('--baseline <file>', 'Only report findings that are not recorded in the baseline file')
+	.option(
+		'--update-baseline',
+		`Record current findings in the baseline file (default: ${DEFAULT_BASELINE_FILE})`
+	)
+	.option('--reporter <format>', 'Write findings as a report (sarif, junit)')
+	.option('--reporter-output <file>', 'Report file path (default: crapifyme-<command>.<ext>)')
 	.action(async (paths: string[], options: any, command: Command) => {
 		const globalOptions = command.parent?.opts() || {};
 		const logger = new Logger(globalOptions.verbose, globalOptions.quiet, globalOptions.json);
 
-		if (!globalOptions.force) {
+		if (!globalOptions.force && !globalOptions.check) {
 			const vcsResult = detectVersionControl();
 			if (!vcsResult.detected && options.fix) {
 				logger.error(
@@ -55,6 +99,8 @@ export const charsCommand = new Command('chars')
 		}
 
 		try {
+			const reporter = createReporter(options, 'chars');
+			const baseline = await loadBaseline(options, 'chars');
 			const extensions = options.extensions.split(',').map((e: string) => e.trim());
 			const patterns = createFilePatterns(paths, extensions);
 			const excludePatterns =
@@ -68,7 +114,14 @@ export const charsCommand = new Command('chars')
 				logger.info(`Exclude patterns: ${excludePatterns.join(', ')}`);
 			}
 
-			const files = await findFiles(patterns, excludePatterns);
+			const gitFiles = await getGitScopedFiles(globalOptions);
+			if (gitFiles) {
+				logger.info(
+					`Git scope: ${gitFiles.length} changed file${gitFiles.length === 1 ? '' : 's'}`
+				);
+			}
+
+			const files = await findFiles(patterns, excludePatterns, gitFiles);
 
 			if (files.length === 0) {
 				logger.warn('No files found to process');
@@ -79,11 +132,21 @@ export const charsCommand = new Command('chars')
 
 			logger.info(`Found ${files.length} file${files.length === 1 ? '' : 's'} to process`);
 
-			if (globalOptions.dryRun || !options.fix) {
+			const diffCollector = options.fix
+				? createDiffCollector(options.diff, options.diffOutput)
+				: null;
+			if ((options.diff || options.diffOutput) && !options.fix) {
+				logger.warn('--diff and --diff-output only apply together with --fix');
+			}
+			const previewOnly = globalOptions.dryRun || globalOptions.check || diffCollector !== null;
+
+			if (previewOnly || !options.fix) {
 				logger.info(
-					options.fix
-						? 'DRY RUN - No files will be modified'
-						: 'DETECTION MODE - No files will be modified'
+					globalOptions.check
+						? 'CHECK MODE - No files will be modified'
+						: options.fix
+							? 'DRY RUN - No files will be modified'
+							: 'DETECTION MODE - No files will be modified'
 				);
 			}
 
@@ -96,6 +159,7 @@ export const charsCommand = new Command('chars')
 			};
 
 			const detector = new CharacterDetector(logger, detectorOptions);
+			const journal = previewOnly ? null : new RunJournal('chars');
 			const minSeverity = parseSeverity(options.severity);
 
 			const stats: CharStats = {
@@ -112,22 +176,58 @@ export const charsCommand = new Command('chars')
 				stats.scriptTypes[scriptType] = 0;
 			}
 
+			const failSeverity = options.failOnSeverity
+				? parseSeverity(options.failOnSeverity)
+				: minSeverity;
+			let failingIssues = 0;
+
 			for (const file of files) {
 				try {
 					const content = await readFile(file);
 					const result =
-						options.fix && !globalOptions.dryRun
+						options.fix && (!(globalOptions.dryRun || globalOptions.check) || diffCollector)
 							? detector.fixCharacters(content, file)
 							: detector.detectCharacters(content, file);
 
-					const filteredIssues = result.issues.filter(
+					const lines = content.split('\n');
+					const newIssues = baseline
+						? result.issues.filter(issue =>
+								baseline.isNew({
+									file,
+									ruleId: `chars/${issue.script}`,
+									context: `${issue.codePoint} ${lines[issue.line - 1] || ''}`
+								})
+							)
+						: result.issues;
+					const filteredIssues = newIssues.filter(
 						issue => getSeverityLevel(issue.severity) >= getSeverityLevel(minSeverity)
 					);
 
-					if (result.modified && !globalOptions.dryRun) {
-						await writeFile(file, result.content);
+					if (result.modified && !previewOnly) {
+						await writeFile(file, result.content, journal);
 					}
 
+					reporter?.addFile(file);
+					baseline?.addFile(file);
+					for (const issue of filteredIssues) {
+						const codePoint = `U+${issue.codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
+						reporter?.addFinding(
+							{
+								ruleId: `chars/${issue.script}`,
+								message: `Non-ASCII character "${issue.character}" (${codePoint})${issue.replacement ? `, replace with "${issue.replacement}"` : ''}`,
+								level: CHARS_REPORT_LEVELS[issue.severity],
+								file,
+								line: issue.line,
+								column: issue.column
+							},
+							{ id: `chars/${issue.script}`, description: `${issue.script} character detected` }
+						);
+					}
+
+					failingIssues += newIssues.filter(
+						issue => getSeverityLevel(issue.severity) >= getSeverityLevel(failSeverity)
+					).length;
+
 					stats.filesProcessed++;
 					stats.charactersFound += filteredIssues.length;
 					stats.charactersFixed += result.fixed;
@@ -170,8 +270,15 @@ export const charsCommand = new Command('chars')
 							console.log(`  ┣ Characters fixed: ${result.fixed}`);
 						}
 						console.log(
-							`  ┗ Status: ${globalOptions.dryRun ? 'DRY RUN - would be modified' : result.modified ? 'Modified' : 'Detected only'}`
+							`  ┗ Status: ${previewOnly ? 'DRY RUN - would be modified' : result.modified ? 'Modified' : 'Detected only'}`
 						);
+
+						if (diffCollector && result.modified) {
+							const fileDiff = diffCollector.add(file, content, result.content);
+							if (!globalOptions.json && !diffCollector.writesToFile && fileDiff.patch) {
+								console.log(formatDiff(fileDiff));
+							}
+						}
 					} else if (globalOptions.verbose) {
 						logger.info(`${file} - No issues found`);
 					}
@@ -181,8 +288,14 @@ export const charsCommand = new Command('chars')
 				}
 			}
 
+			const patchPath = diffCollector ? await diffCollector.save(files) : null;
+			const reportPath = reporter ? await reporter.save() : null;
+			if (baseline?.updating) {
+				await baseline.save();
+			}
+
 			if (globalOptions.json) {
-				logger.json(stats);
+				logger.json(diffCollector ? { ...stats, diffs: diffCollector.getDiffs() } : stats);
 			} else {
 				if (stats.errors.length > 0) {
 					logger.error(
@@ -209,53 +322,61 @@ export const charsCommand = new Command('chars')
 
 				showComplete();
 
-				if (globalOptions.dryRun && options.fix && stats.charactersFound > 0) {
-					logger.warn('DRY RUN MODE - No files were actually modified');
-					logger.info('Remove --dry-run to apply changes');
+				if (patchPath) {
+					logger.info(`Patch written to ${patchPath}`);
+				}
+
+				if (reportPath) {
+					logger.info(`Report written to ${reportPath}`);
+				}
+
+				if (baseline?.updating) {
+					logger.info(
+						`Baseline updated: ${baseline.size} finding${baseline.size === 1 ? '' : 's'} recorded in ${baseline.filePath}`
+					);
+				} else if (baseline && baseline.suppressed > 0) {
+					logger.info(
+						`Baseline: ${baseline.suppressed} known finding${baseline.suppressed === 1 ? '' : 's'} suppressed`
+					);
+				}
+
+				if (previewOnly && !globalOptions.check && options.fix && stats.charactersFound > 0) {
+					if (globalOptions.dryRun) {
+						logger.warn('DRY RUN MODE - No files were actually modified');
+						logger.info('Remove --dry-run to apply changes');
+					} else {
+						logger.info(
+							`No files were modified; remove ${options.diffOutput ? '--diff-output' : '--diff'} to apply changes`
+						);
+					}
 				} else if (!options.fix && stats.charactersFound > 0) {
 					logger.info('Add --fix flag to automatically replace characters');
 				}
+
+				if (options.failOnSeverity && failingIssues > 0) {
+					logger.error(
+						`${failingIssues} issue${failingIssues === 1 ? '' : 's'} at or above ${failSeverity} severity`
+					);
+				}
 			}
 
 			const exitCode =
 				stats.errors.length > 0
 					? ExitCode.Error
-					: stats.charactersFound > 0
+					: failingIssues > 0
 						? ExitCode.IssuesFound
 						: ExitCode.Success;
 			process.exit(exitCode);
 		} catch (error) {
-			logger.error('Fatal error', error as Error);
+			logger.error(
+				error instanceof GitError ||
+					error instanceof ReporterError ||
+					error instanceof BaselineError ||
+					error instanceof DiffError
+					? error.message
+					: 'Fatal error',
+				error as Error
+			);
 			process.exit(ExitCode.Error);
 		}
 	});
-
-function parseSeverity(severity: string): IssueSeverity {
-	switch (severity.toLowerCase()) {
-		case 'low':
-			return IssueSeverity.LOW;
-		case 'medium':
-			return IssueSeverity.MEDIUM;
-		case 'high':
-			return IssueSeverity.HIGH;
-		case 'critical':
-			return IssueSeverity.CRITICAL;
-		default:
-			return IssueSeverity.LOW;
-	}
-}
-
-function getSeverityLevel(severity: IssueSeverity): number {
-	switch (severity) {
-		case IssueSeverity.LOW:
-			return 1;
-		case IssueSeverity.MEDIUM:
-			return 2;
-		case IssueSeverity.HIGH:
-			return 3;
-		case IssueSeverity.CRITICAL:
-			return 4;
-		default:
-			return 1;
-	}
-}
@@ -1,5 +1,8 @@
 import anyAscii from 'any-ascii';
 import { Logger } from '../../shared';
+import { IgnoreDirectives } from '../../shared/directives';
+import { RawSourceMap, applyTextEdits, createSourceMap } from '../../shared/source-map';
+import { TextEdit } from '../../shared/types';
 import {
 	CharacterIssue,
 	CharacterDetectionResult,
@@ -46,9 +49,13 @@ export class CharacterDetector {
 	detectCharacters(content: string, filePath: string): CharacterDetectionResult {
 		const issues: CharacterIssue[] = [];
 		const lines = content.split('\n');
+		const directives = new IgnoreDirectives(content, 'chars');
 
 		for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
 			const line = lines[lineIndex];
+			if (directives.isLineIgnored(lineIndex + 1)) {
+				continue;
+			}
 
 			for (let charIndex = 0; charIndex < line.length; charIndex++) {
 				const char = line[charIndex];
@@ -85,35 +92,33 @@ export class CharacterDetector {
 		};
 	}
 
-	fixCharacters(content: string, filePath: string): CharacterDetectionResult {
+	fixCharacters(
+		content: string,
+		filePath: string,
+		inputMap?: RawSourceMap | null
+	): CharacterDetectionResult {
 		const result = this.detectCharacters(content, filePath);
-		let modifiedContent = content;
-		let fixed = 0;
+		const lineOffsets = [0];
+		for (let i = 0; i < content.length; i++) {
+			if (content[i] === '\n') lineOffsets.push(i + 1);
+		}
 
-		const sortedIssues = result.issues
+		const edits: TextEdit[] = result.issues
 			.filter(issue => issue.replacement !== undefined)
-			.sort((a, b) => {
-				if (a.line !== b.line) return b.line - a.line;
-				return b.column - a.column;
+			.map(issue => {
+				const start = lineOffsets[issue.line - 1] + issue.column - 1;
+				return { start, end: start + 1, replacement: issue.replacement || '' };
 			});
 
-		for (const issue of sortedIssues) {
-			const lines = modifiedContent.split('\n');
-			if (lines[issue.line - 1]) {
-				const line = lines[issue.line - 1];
-				const before = line.substring(0, issue.column - 1);
-				const after = line.substring(issue.column);
-				lines[issue.line - 1] = before + (issue.replacement || '') + after;
-				modifiedContent = lines.join('\n');
-				fixed++;
-			}
-		}
-
 		return {
-			content: modifiedContent,
-			modified: fixed > 0,
+			content: applyTextEdits(content, edits),
+			modified: edits.length > 0,
 			issues: result.issues,
-			fixed
+			fixed: edits.length,
+			edits,
+			map: this.options.sourceMap
+				? createSourceMap(content, edits, { source: filePath, inputMap })
+				: undefined
 		};
 	}
 
@@ -1,4 +1,5 @@
-import { FileStats } from '../../shared/types';
+import { RawSourceMap } from '../../shared/source-map';
+import { FileStats, TextEdit } from '../../shared/types';
 
 export interface CharacterIssue {
 	character: string;
@@ -22,6 +23,8 @@ export interface CharacterDetectionResult {
 	modified: boolean;
 	issues: CharacterIssue[];
 	fixed: number;
+	edits?: TextEdit[];
+	map?: RawSourceMap;
 	errors?: string[];
 }
 
@@ -56,4 +59,35 @@ export interface CharacterDetectorOptions {
 	showContext?: number;
 	ignoreStrings?: boolean;
 	ignoreComments?: boolean;
+	sourceMap?: boolean;
+}
+
+export function parseSeverity(severity: string): IssueSeverity {
+	switch (severity.toLowerCase()) {
+		case 'low':
+			return IssueSeverity.LOW;
+		case 'medium':
+			return IssueSeverity.MEDIUM;
+		case 'high':
+			return IssueSeverity.HIGH;
+		case 'critical':
+			return IssueSeverity.CRITICAL;
+		default:
+			return IssueSeverity.LOW;
+	}
+}
+
+export function getSeverityLevel(severity: IssueSeverity): number {
+	switch (severity) {
+		case IssueSeverity.LOW:
+			return 1;
+		case IssueSeverity.MEDIUM:
+			return 2;
+		case IssueSeverity.HIGH:
+			return 3;
+		case IssueSeverity.CRITICAL:
+			return 4;
+		default:
+			return 1;
+	}
 }
@@ -1,10 +1,24 @@
 import path from 'path';
+import { IgnoreDirectives } from '../../shared/directives';
 import { EnhancedTokenizer } from '../../shared/enhanced-tokenizer';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../../shared/error-handler';
+import { LanguageTokenizer } from '../../shared/language-tokenizer';
+import { getLanguage, getLanguageByExtension, isLanguageDirective } from '../../shared/languages';
+import { LineRangeFilter } from '../../shared/line-ranges';
 import { Logger } from '../../shared/logger';
 import { PerformanceMonitor, OptimizedStringBuilder } from '../../shared/performance-monitor';
 import { PreservationRuleManager } from '../../shared/rule-manager';
-import { ProcessResult, CommentCategory } from '../../shared/types';
+import { SfcBlock, findSfcComments, isSfcFile, splitSfc } from '../../shared/sfc';
+import { RawSourceMap, applyTextEdits, createSourceMap } from '../../shared/source-map';
+import {
+	LineRange,
+	ProcessResult,
+	CommentCategory,
+	EnhancedToken,
+	TextEdit
+} from '../../shared/types';
+import { removeJsxCommentContainers } from './jsx-comments';
+import { normalizeLayout } from './layout';
 
 interface Token {
 	type: 'string' | 'comment' | 'code';
@@ -20,6 +34,8 @@ export interface AdvancedCommentsOptions {
 	preserveDocumentation?: boolean;
 	customRules?: string[];
 	rulePriority?: number;
+	sourceMap?: boolean;
+	normalizeLayout?: boolean;
 }
 
 export class AdvancedCommentRemover {
@@ -30,6 +46,8 @@ export class AdvancedCommentRemover {
 	private readonly errorHandler: ErrorHandler;
 	private readonly logger: Logger;
 	private readonly performanceMonitor: PerformanceMonitor;
+	private readonly sourceMap: boolean;
+	private readonly normalizeLayout: boolean;
 
 	constructor(keepPatterns: string[], options: AdvancedCommentsOptions = {}) {
 		this.keepPatterns = keepPatterns.filter(p => p.trim().length > 0);
@@ -38,22 +56,56 @@ export class AdvancedCommentRemover {
 		this.enhancedTokenizer = new EnhancedTokenizer(this.logger);
 		this.ruleManager = new PreservationRuleManager();
 		this.useEnhancedTokenizer = options.useEnhancedTokenizer !== false;
+		this.sourceMap = options.sourceMap === true;
+		this.normalizeLayout = options.normalizeLayout !== false;
 		this.performanceMonitor = new PerformanceMonitor(this.logger);
 
 		this.configurePreservationRules(options);
 		this.addCustomPatterns();
 	}
 
-	removeComments(content: string, filePath: string): ProcessResult {
-		const extension = this.getFileExtension(filePath);
+	removeComments(
+		content: string,
+		filePath: string,
+		lineRanges?: LineRange[],
+		inputMap?: RawSourceMap | null
+	): ProcessResult {
+		const result = this.processComments(content, filePath, lineRanges);
+		if (!this.sourceMap) {
+			return result;
+		}
+
+		return {
+			...result,
+			map: createSourceMap(content, result.edits || [], { source: filePath, inputMap })
+		};
+	}
+
+	private processComments(
+		content: string,
+		filePath: string,
+		lineRanges?: LineRange[]
+	): ProcessResult {
+		const lineFilter = lineRanges ? new LineRangeFilter(content, lineRanges) : null;
+		const directives = new IgnoreDirectives(content, 'comments');
 		this.errorHandler.clear();
 
 		try {
 			if (this.useEnhancedTokenizer) {
-				const result = this.removeCommentsWithEnhancedTokenizer(content, filePath);
+				const result = this.removeCommentsWithEnhancedTokenizer(
+					content,
+					filePath,
+					lineFilter,
+					directives
+				);
 				return this.enhanceResultWithErrorInfo(result, filePath);
 			} else {
-				const result = this.removeCommentsWithLegacyTokenizer(content, extension);
+				const result = this.removeCommentsWithLegacyTokenizer(
+					content,
+					filePath,
+					lineFilter,
+					directives
+				);
 				return this.enhanceResultWithErrorInfo(result, filePath);
 			}
 		} catch (error) {
@@ -69,7 +121,12 @@ export class AdvancedCommentRemover {
 			);
 
 			try {
-				const result = this.removeCommentsWithLegacyTokenizer(content, extension);
+				const result = this.removeCommentsWithLegacyTokenizer(
+					content,
+					filePath,
+					lineFilter,
+					directives
+				);
 				return this.enhanceResultWithErrorInfo(result, filePath);
 			} catch (fallbackError) {
 				this.errorHandler.recordError({
@@ -84,21 +141,42 @@ export class AdvancedCommentRemover {
 		}
 	}
 
-	private removeCommentsWithEnhancedTokenizer(content: string, filePath: string): ProcessResult {
+	private removeCommentsWithEnhancedTokenizer(
+		content: string,
+		filePath: string,
+		lineFilter: LineRangeFilter | null = null,
+		directives: IgnoreDirectives | null = null
+	): ProcessResult {
 		try {
 			this.performanceMonitor.startMonitoring();
 
-			const tokens = this.enhancedTokenizer.tokenize(content);
+			const language = getLanguage(filePath);
+			const tokens = isSfcFile(filePath)
+				? this.tokenizeSfc(content, filePath, code => this.enhancedTokenizer.tokenize(code))
+				: language
+					? new LanguageTokenizer(language).tokenize(content)
+					: this.enhancedTokenizer.tokenize(content);
 
 			const useOptimizedBuilder = content.length > 100000;
 			const result = useOptimizedBuilder ? new OptimizedStringBuilder() : [];
+			const edits: TextEdit[] = [];
 			let removed = 0;
 			let preserved = 0;
 
 			for (const token of tokens) {
 				if (token.type === 'comment') {
 					try {
-						if (this.shouldPreserveCommentEnhanced(token.value)) {
+						if (lineFilter && !lineFilter.contains(content, token.startPos, token.endPos)) {
+							if (useOptimizedBuilder) {
+								(result as OptimizedStringBuilder).append(token.value);
+							} else {
+								(result as string[]).push(token.value);
+							}
+						} else if (
+							directives?.isIgnored(token.startPos) ||
+							(language && isLanguageDirective(language, content, token)) ||
+							this.shouldPreserveCommentEnhanced(token.value)
+						) {
 							if (useOptimizedBuilder) {
 								(result as OptimizedStringBuilder).append(token.value);
 							} else {
@@ -106,6 +184,7 @@ export class AdvancedCommentRemover {
 							}
 							preserved++;
 						} else {
+							edits.push({ start: token.startPos, end: token.endPos, replacement: '' });
 							removed++;
 						}
 					} catch (preservationError) {
@@ -133,9 +212,16 @@ export class AdvancedCommentRemover {
 				}
 			}
 
-			const processedContent = useOptimizedBuilder
-				? (result as OptimizedStringBuilder).toString()
-				: (result as string[]).join('');
+			const finalEdits = this.finalizeEdits(
+				content,
+				removeJsxCommentContainers(content, filePath, edits) || edits
+			);
+			const processedContent =
+				finalEdits !== edits
+					? applyTextEdits(content, finalEdits)
+					: useOptimizedBuilder
+						? (result as OptimizedStringBuilder).toString()
+						: (result as string[]).join('');
 
 			const metrics = this.performanceMonitor.stopMonitoring(tokens.length, content.length);
 
@@ -146,6 +232,7 @@ export class AdvancedCommentRemover {
 				modified: content !== processedContent,
 				removed,
 				preserved,
+				edits: finalEdits,
 				performanceMetrics: metrics
 			};
 		} catch (error) {
@@ -159,20 +246,42 @@ export class AdvancedCommentRemover {
 		}
 	}
 
-	private removeCommentsWithLegacyTokenizer(content: string, extension: string): ProcessResult {
+	private removeCommentsWithLegacyTokenizer(
+		content: string,
+		filePath: string,
+		lineFilter: LineRangeFilter | null = null,
+		directives: IgnoreDirectives | null = null
+	): ProcessResult {
 		try {
-			const tokens = this.tokenizeWithErrorHandling(content, extension);
+			const extension = this.getFileExtension(filePath);
+			const tokens: Pick<EnhancedToken, 'type' | 'value'>[] = isSfcFile(filePath)
+				? this.tokenizeSfc(content, filePath, code =>
+						this.toPositionedTokens(this.tokenizeWithErrorHandling(code, 'js'))
+					)
+				: this.tokenizeWithErrorHandling(content, extension);
 			const result: string[] = [];
+			const edits: TextEdit[] = [];
 			let removed = 0;
 			let preserved = 0;
+			let position = 0;
 
 			for (const token of tokens) {
+				const startPos = position;
+				position += token.value.length;
+
 				if (token.type === 'comment') {
 					try {
-						if (this.shouldPreserveComment(token.value)) {
+						if (lineFilter && !lineFilter.contains(content, startPos, position)) {
+							result.push(token.value);
+						} else if (
+							directives?.isIgnored(startPos) ||
+							this.isDirectiveComment(token.value) ||
+							this.shouldPreserveComment(token.value)
+						) {
 							result.push(token.value);
 							preserved++;
 						} else {
+							edits.push({ start: startPos, end: position, replacement: '' });
 							removed++;
 						}
 					} catch (preservationError) {
@@ -191,7 +300,9 @@ export class AdvancedCommentRemover {
 				}
 			}
 
-			const processedContent = result.join('');
+			const finalEdits = this.finalizeEdits(content, edits);
+			const processedContent =
+				finalEdits !== edits ? applyTextEdits(content, finalEdits) : result.join('');
 
 			this.validateProcessingResult(content, processedContent, tokens.length, extension);
 
@@ -199,7 +310,8 @@ export class AdvancedCommentRemover {
 				content: processedContent,
 				modified: content !== processedContent,
 				removed,
-				preserved
+				preserved,
+				edits: finalEdits
 			};
 		} catch (error) {
 			this.errorHandler.recordError({
@@ -212,6 +324,75 @@ export class AdvancedCommentRemover {
 		}
 	}
 
+	private finalizeEdits(content: string, edits: TextEdit[]): TextEdit[] {
+		return this.normalizeLayout ? normalizeLayout(content, edits) : edits;
+	}
+
+	private tokenizeSfc(
+		content: string,
+		filePath: string,
+		tokenizeScript: (code: string) => EnhancedToken[]
+	): EnhancedToken[] {
+		const tokens: EnhancedToken[] = [];
+
+		for (const block of splitSfc(content, filePath)) {
+			if (block.type === 'script' || block.type === 'frontmatter') {
+				for (const token of tokenizeScript(content.slice(block.start, block.end))) {
+					tokens.push({
+						...token,
+						startPos: token.startPos + block.start,
+						endPos: token.endPos + block.start
+					});
+				}
+				continue;
+			}
+
+			tokens.push(...this.tokenizeSfcBlock(content, block));
+		}
+
+		return tokens;
+	}
+
+	private tokenizeSfcBlock(content: string, block: SfcBlock): EnhancedToken[] {
+		const tokens: EnhancedToken[] = [];
+		const pushToken = (type: 'comment' | 'code', start: number, end: number) => {
+			if (end > start) {
+				tokens.push({
+					type,
+					value: content.slice(start, end),
+					context: { type },
+					startPos: start,
+					endPos: end
+				});
+			}
+		};
+
+		let position = block.start;
+		for (const comment of findSfcComments(content, block)) {
+			pushToken('code', position, comment.start);
+			pushToken('comment', comment.start, comment.end);
+			position = comment.end;
+		}
+		pushToken('code', position, block.end);
+
+		return tokens;
+	}
+
+	private toPositionedTokens(tokens: Token[]): EnhancedToken[] {
+		let position = 0;
+		return tokens.map(token => {
+			const startPos = position;
+			position += token.value.length;
+			return {
+				type: token.type,
+				value: token.value,
+				context: { type: token.type },
+				startPos,
+				endPos: position
+			};
+		});
+	}
+
 	private getFileExtension(filePath: string): string {
 		return path.extname(filePath).slice(1).toLowerCase();
 	}
@@ -391,21 +572,9 @@ export class AdvancedCommentRemover {
 	}
 
 	private isHashCommentFile(extension: string): boolean {
-		const hashCommentExtensions = [
-			'py',
-			'sh',
-			'bash',
-			'zsh',
-			'fish',
-			'rb',
-			'pl',
-			'yaml',
-			'yml',
-			'toml',
-			'conf',
-			'env'
-		];
-		return hashCommentExtensions.includes(extension);
+		return (
+			getLanguageByExtension(extension)?.comments.some(pattern => pattern.start === '#') === true
+		);
 	}
 
 	private isPartOfUrl(content: string, position: number): boolean {
@@ -443,6 +612,12 @@ export class AdvancedCommentRemover {
 		return this.shouldPreserveComment(comment);
 	}
 
+	private isDirectiveComment(comment: string): boolean {
+		return this.ruleManager
+			.getRulesByCategory(CommentCategory.DIRECTIVE)
+			.some(rule => rule.matches(comment));
+	}
+
 	private shouldPreserveComment(comment: string): boolean {
 		if (this.keepPatterns.length === 0) return false;
 
@@ -483,7 +658,7 @@ export class AdvancedCommentRemover {
 				try {
 					this.ruleManager.addCustomPattern(`cli-custom-pattern-${index}`, pattern, priority);
 				} catch (error) {
-					console.warn(`Invalid custom regex pattern ignored: ${pattern}`);
+					this.logger.warn(`Invalid custom regex pattern ignored: ${pattern}`);
 				}
 			});
 		}
@@ -494,7 +669,7 @@ export class AdvancedCommentRemover {
 			try {
 				this.ruleManager.addCustomPattern(`custom-pattern-${index}`, pattern, 50);
 			} catch (error) {
-				console.warn(`Invalid regex pattern ignored: ${pattern}`);
+				this.logger.warn(`Invalid regex pattern ignored: ${pattern}`);
 			}
 		});
 	}
@@ -1,14 +1,32 @@
 import { Command } from 'commander';
+import path from 'path';
 import {
 	Logger,
 	findFiles,
 	createFilePatterns,
+	getGitScopedFiles,
+	getChangedLineRanges,
+	GitError,
+	createReporter,
+	ReporterError,
+	loadBaseline,
+	BaselineError,
+	DEFAULT_BASELINE_FILE,
 	readFile,
 	writeFile,
 	detectVersionControl,
 	CommentStats,
 	ExitCode,
-	showComplete
+	showComplete,
+	createDiffCollector,
+	DiffError,
+	formatDiff,
+	FileWatcher,
+	watchUntilInterrupted,
+	createEditFindings,
+	SyntaxValidator,
+	SemanticVerifier,
+	RunJournal
 } from '../../shared';
 import { AdvancedCommentRemover } from './advanced-logic';
 
@@ -30,11 +48,33 @@ export const commentsCommand = new Command('comments')
 	.option('--no-preserve-development', 'Disable development keyword preservation')
 	.option('--no-preserve-tooling', 'Disable tooling directive preservation')
 	.option('--no-preserve-documentation', 'Disable documentation comment preservation')
+	.option(
+		'--no-normalize-layout',
+		'Keep the indentation, trailing spaces and blank lines left behind by removed comments'
+	)
+	.option(
+		'--verify',
+		'Check that each rewritten file has the same syntax tree as the original apart from comments, and leave it unchanged otherwise'
+	)
+	.option('--diff', 'Show a unified diff instead of writing changes')
+	.option('--diff-output <file>', 'Save the unified diff to <file> instead of writing changes')
+	.option('--watch', 'Watch files and re-process them when they change')
+	.option('--baseline <file>', 'Only report findings that are not recorded in the baseline file')
+	.option(
+		'--update-baseline',
+		`Record current findings in the baseline file (default: ${DEFAULT_BASELINE_FILE})`
+	)
+	.option('--reporter <format>', 'Write findings as a report (sarif, junit)')
+	.option('--reporter-output <file>', 'Report file path (default: crapifyme-<command>.<ext>)')
+	.option(
+		'--changed-lines',
+		'Only remove items on lines changed in git (uncommitted changes unless --staged or --changed-since is given)'
+	)
 	.action(async (paths: string[], options: any, command: Command) => {
 		const globalOptions = command.parent?.opts() || {};
 		const logger = new Logger(globalOptions.verbose, globalOptions.quiet, globalOptions.json);
 
-		if (!globalOptions.force) {
+		if (!globalOptions.force && !globalOptions.check) {
 			const vcsResult = detectVersionControl();
 			if (!vcsResult.detected) {
 				logger.error(
@@ -53,6 +93,8 @@ export const commentsCommand = new Command('comments')
 		}
 
 		try {
+			const reporter = createReporter(options, 'comments');
+			const baseline = await loadBaseline(options, 'comments');
 			const extensions = options.extensions.split(',').map((e: string) => e.trim());
 			const patterns = createFilePatterns(paths, extensions);
 			const excludePatterns =
@@ -66,19 +108,36 @@ export const commentsCommand = new Command('comments')
 				logger.info(`Exclude patterns: ${excludePatterns.join(', ')}`);
 			}
 
-			const files = await findFiles(patterns, excludePatterns);
+			const changedLines = options.changedLines ? await getChangedLineRanges(globalOptions) : null;
+			const gitFiles = changedLines
+				? [...changedLines.keys()]
+				: await getGitScopedFiles(globalOptions);
+			if (gitFiles) {
+				logger.info(
+					`Git scope: ${gitFiles.length} changed file${gitFiles.length === 1 ? '' : 's'}`
+				);
+			}
+
+			const files = await findFiles(patterns, excludePatterns, gitFiles);
 
 			if (files.length === 0) {
 				logger.warn('No files found to process');
 				logger.info(`Searched in: ${paths.join(', ')}`);
 				logger.info(`Extensions: ${extensions.join(', ')}`);
-				process.exit(ExitCode.Success);
+				if (!options.watch || globalOptions.check) {
+					process.exit(ExitCode.Success);
+				}
 			}
 
 			logger.info(`Found ${files.length} file${files.length === 1 ? '' : 's'} to process`);
 
-			if (globalOptions.dryRun) {
-				logger.info('DRY RUN - No files will be modified');
+			const diffCollector = createDiffCollector(options.diff, options.diffOutput);
+			const previewOnly = globalOptions.dryRun || globalOptions.check || diffCollector !== null;
+
+			if (previewOnly) {
+				logger.info(
+					`${globalOptions.check ? 'CHECK MODE' : 'DRY RUN'} - No files will be modified`
+				);
 			}
 
 			const processor = new AdvancedCommentRemover(
@@ -89,9 +148,13 @@ export const commentsCommand = new Command('comments')
 					preserveDevelopment: options.preserveDevelopment,
 					preserveTooling: options.preserveTooling,
 					preserveDocumentation: options.preserveDocumentation,
+					normalizeLayout: options.normalizeLayout,
 					useEnhancedTokenizer: true
 				}
 			);
+			const validator = new SyntaxValidator();
+			const journal = previewOnly ? null : new RunJournal('comments');
+			const verifier = options.verify ? new SemanticVerifier() : null;
 
 			const stats: CommentStats = {
 				filesProcessed: 0,
@@ -100,13 +163,53 @@ export const commentsCommand = new Command('comments')
 				errors: []
 			};
 
-			for (const file of files) {
+			let newFindings = 0;
+			let watcher: FileWatcher | null = null;
+
+			const processFile = async (file: string) => {
 				try {
 					const content = await readFile(file);
-					const result = processor.removeComments(content, file);
+					const result = processor.removeComments(
+						content,
+						file,
+						changedLines ? changedLines.get(path.resolve(file)) || [] : undefined
+					);
+					validator.validate(file, content, result.content);
+					verifier?.verify(file, content, result.content);
 
-					if (result.modified && !globalOptions.dryRun) {
-						await writeFile(file, result.content);
+					if (result.modified && !previewOnly) {
+						watcher?.markWritten(file, result.content);
+						await writeFile(file, result.content, journal);
+					}
+
+					const occurrences = new Map<string, number>();
+					const newEdits = (result.edits || []).filter(edit => {
+						if (!baseline) {
+							return true;
+						}
+						const text = content.slice(edit.start, edit.end);
+						const occurrence = (occurrences.get(text) || 0) + 1;
+						occurrences.set(text, occurrence);
+						return baseline.isNew({
+							file,
+							ruleId: 'comments/comment',
+							context: `${occurrence} ${text}`
+						});
+					});
+					baseline?.addFile(file);
+					newFindings += baseline ? newEdits.length : result.removed;
+
+					if (reporter) {
+						reporter.addFile(file);
+						for (const finding of createEditFindings(
+							file,
+							content,
+							newEdits,
+							{ id: 'comments/comment', description: 'Removable comment' },
+							text => `Comment ${previewOnly ? 'would be' : 'was'} removed: ${text}`
+						)) {
+							reporter.addFinding(finding);
+						}
 					}
 
 					stats.filesProcessed++;
@@ -117,9 +220,14 @@ export const commentsCommand = new Command('comments')
 						logger.success(`${file}`);
 						console.log(`  ┣ Comments removed: ${result.removed}`);
 						console.log(`  ┣ Comments preserved: ${result.preserved}`);
-						console.log(
-							`  ┗ Status: ${globalOptions.dryRun ? 'DRY RUN - would be modified' : 'Modified'}`
-						);
+						console.log(`  ┗ Status: ${previewOnly ? 'DRY RUN - would be modified' : 'Modified'}`);
+
+						if (diffCollector) {
+							const fileDiff = diffCollector.add(file, content, result.content);
+							if (!globalOptions.json && !diffCollector.writesToFile && fileDiff.patch) {
+								console.log(formatDiff(fileDiff));
+							}
+						}
 					} else if (globalOptions.verbose) {
 						logger.info(`${file} - No comments found`);
 					}
@@ -127,16 +235,30 @@ export const commentsCommand = new Command('comments')
 					stats.errors.push({ file, error: (error as Error).message });
 					logger.error(`Failed to process ${file}`, error as Error);
 				}
+			};
+
+			for (const file of files) {
+				await processFile(file);
+			}
+
+			const patchPath = diffCollector ? await diffCollector.save(files) : null;
+			const reportPath = reporter ? await reporter.save() : null;
+			if (baseline?.updating) {
+				await baseline.save();
 			}
 
 			if (globalOptions.json) {
-				logger.json(stats);
+				logger.json(diffCollector ? { ...stats, diffs: diffCollector.getDiffs() } : stats);
 			} else {
 				showComplete();
 
 				if (stats.errors.length > 0) {
+					const parsingErrors = validator.getErrors().length;
 					logger.error(
-						`Processing completed with ${stats.errors.length} error${stats.errors.length === 1 ? '' : 's'}`
+						`Processing completed with ${stats.errors.length} error${stats.errors.length === 1 ? '' : 's'}` +
+							(parsingErrors > 0
+								? ` (${parsingErrors} left unchanged because the output no longer parsed)`
+								: '')
 					);
 				} else {
 					logger.success('Processing completed successfully');
@@ -147,21 +269,63 @@ export const commentsCommand = new Command('comments')
 				logger.info(`Comments removed: ${stats.commentsRemoved}`);
 				logger.info(`Comments preserved: ${stats.commentsPreserved}`);
 
-				if (globalOptions.dryRun && stats.commentsRemoved > 0) {
-					logger.warn('DRY RUN MODE - No files were actually modified');
-					logger.info('Remove --dry-run to apply changes');
+				if (patchPath) {
+					logger.info(`Patch written to ${patchPath}`);
+				}
+
+				if (reportPath) {
+					logger.info(`Report written to ${reportPath}`);
+				}
+
+				if (baseline?.updating) {
+					logger.info(
+						`Baseline updated: ${baseline.size} finding${baseline.size === 1 ? '' : 's'} recorded in ${baseline.filePath}`
+					);
+				} else if (baseline && baseline.suppressed > 0) {
+					logger.info(
+						`Baseline: ${baseline.suppressed} known finding${baseline.suppressed === 1 ? '' : 's'} suppressed`
+					);
+				}
+
+				if (previewOnly && !globalOptions.check && stats.commentsRemoved > 0) {
+					if (globalOptions.dryRun) {
+						logger.warn('DRY RUN MODE - No files were actually modified');
+						logger.info('Remove --dry-run to apply changes');
+					} else {
+						logger.info(
+							`No files were modified; remove ${options.diffOutput ? '--diff-output' : '--diff'} to apply changes`
+						);
+					}
 				}
 			}
 
+			if (options.watch && !globalOptions.check) {
+				watcher = new FileWatcher(
+					{ paths, extensions, exclude: excludePatterns, logger },
+					processFile
+				);
+				await watcher.start();
+				watchUntilInterrupted(watcher, logger);
+				return;
+			}
+
 			const exitCode =
 				stats.errors.length > 0
 					? ExitCode.Error
-					: stats.commentsRemoved > 0
+					: newFindings > 0
 						? ExitCode.IssuesFound
 						: ExitCode.Success;
 			process.exit(exitCode);
 		} catch (error) {
-			logger.error('Fatal error', error as Error);
+			logger.error(
+				error instanceof GitError ||
+					error instanceof ReporterError ||
+					error instanceof BaselineError ||
+					error instanceof DiffError
+					? error.message
+					: 'Fatal error',
+				error as Error
+			);
 			process.exit(ExitCode.Error);
 		}
 	});
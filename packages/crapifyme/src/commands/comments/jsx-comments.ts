@@ -0,0 +1,119 @@
+import path from 'path';
+import { parse } from '@babel/parser';
+import traverse from '@babel/traverse';
+import { File } from '@babel/types';
+import { applyTextEdits } from '../../shared/source-map';
+import { TextEdit } from '../../shared/types';
+
+export const JSX_EXTENSIONS = ['js', 'jsx', 'mjs', 'cjs', 'tsx'];
+
+interface JsxContainer {
+	start: number;
+	end: number;
+}
+
+export function removeJsxCommentContainers(
+	content: string,
+	filePath: string,
+	edits: TextEdit[]
+): TextEdit[] | null {
+	const extension = path.extname(filePath).slice(1).toLowerCase();
+	if (!JSX_EXTENSIONS.includes(extension) || !edits.some(edit => opensContainer(content, edit))) {
+		return null;
+	}
+
+	const ast = parseJsx(content, extension);
+	if (!ast) {
+		return null;
+	}
+
+	const containers = findEmptyContainers(ast);
+	const containerEdits: TextEdit[] = [];
+	const replaced = new Set<TextEdit>();
+
+	for (const container of containers) {
+		const inner = edits.filter(edit => edit.start > container.start && edit.end < container.end);
+		if (inner.length === 0 || !isEmptiedBy(content, container, inner)) {
+			continue;
+		}
+
+		inner.forEach(edit => replaced.add(edit));
+		containerEdits.push(createContainerEdit(content, container));
+	}
+
+	if (containerEdits.length === 0) {
+		return null;
+	}
+
+	const result = [...edits.filter(edit => !replaced.has(edit)), ...containerEdits].sort(
+		(a, b) => a.start - b.start
+	);
+	return parseJsx(applyTextEdits(content, result), extension) ? result : null;
+}
+
+function opensContainer(content: string, edit: TextEdit): boolean {
+	return /\{\s*$/.test(content.slice(Math.max(0, edit.start - 80), edit.start));
+}
+
+function parseJsx(content: string, extension: string): File | null {
+	try {
+		return parse(content, {
+			sourceType: 'module',
+			allowImportExportEverywhere: true,
+			allowReturnOutsideFunction: true,
+			plugins: [
+				'jsx',
+				'objectRestSpread',
+				'decorators-legacy',
+				...(extension === 'tsx' ? (['typescript'] as const) : [])
+			]
+		});
+	} catch {
+		return null;
+	}
+}
+
+function findEmptyContainers(ast: File): JsxContainer[] {
+	const containers: JsxContainer[] = [];
+
+	traverse(ast, {
+		JSXExpressionContainer(path) {
+			const { node } = path;
+			if (node.expression.type === 'JSXEmptyExpression' && node.start != null && node.end != null) {
+				containers.push({ start: node.start, end: node.end });
+			}
+		}
+	});
+
+	return containers;
+}
+
+function isEmptiedBy(content: string, container: JsxContainer, edits: TextEdit[]): boolean {
+	const offset = container.start + 1;
+	const inner = content.slice(offset, container.end - 1);
+	const shifted = edits.map(edit => ({
+		...edit,
+		start: edit.start - offset,
+		end: edit.end - offset
+	}));
+	return applyTextEdits(inner, shifted).trim() === '';
+}
+
+function createContainerEdit(content: string, container: JsxContainer): TextEdit {
+	const lineStart = content.lastIndexOf('\n', container.start - 1) + 1;
+	const newline = content.indexOf('\n', container.end);
+	const lineEnd = newline === -1 ? content.length : newline;
+
+	if (
+		content.slice(lineStart, container.start).trim() === '' &&
+		content.slice(container.end, lineEnd).trim() === ''
+	) {
+		return {
+			start: lineStart,
+			end: newline === -1 ? lineEnd : newline + 1,
+			replacement: ''
+		};
+	}
+
+	return { start: container.start, end: container.end, replacement: '' };
+}
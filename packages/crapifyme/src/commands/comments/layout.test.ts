@@ -0,0 +1,74 @@
+import { applyTextEdits } from '../../shared/source-map';
+import { TextEdit } from '../../shared/types';
+import { normalizeLayout } from './layout';
+
+function removeComments(content: string, ...comments: string[]): string {
+	const edits: TextEdit[] = comments.map(comment => {
+		const start = content.indexOf(comment);
+		return { start, end: start + comment.length, replacement: '' };
+	});
+	return applyTextEdits(content, normalizeLayout(content, edits));
+}
+
+describe('normalizeLayout', () => {
+	it('removes lines that only held a comment', () => {
+		expect(removeComments('a();\n// note\nb();\n', '// note')).toBe('a();\nb();\n');
+	});
+
+	it('drops whitespace before a trailing comment', () => {
+		expect(removeComments('a();   // note\nb();\n', '// note')).toBe('a();\nb();\n');
+	});
+
+	it('drops whitespace after a leading block comment', () => {
+		expect(removeComments('/* note */  a();\n', '/* note */')).toBe('a();\n');
+	});
+
+	it('keeps CRLF line endings', () => {
+		expect(removeComments('a();\r\n// note\r\nb(); // tail\r\n', '// note', '// tail')).toBe(
+			'a();\r\nb();\r\n'
+		);
+	});
+
+	it('keeps the CRLF when the removal ends on the carriage return', () => {
+		const content = 'a();\r\n// note\r\nb();\r\n';
+		const start = content.indexOf('// note');
+		const edits = normalizeLayout(content, [
+			{ start, end: content.indexOf('\n', start), replacement: '' }
+		]);
+		expect(applyTextEdits(content, edits)).toBe('a();\r\nb();\r\n');
+	});
+
+	it('collapses blank lines stacked around a removed comment', () => {
+		expect(removeComments('a();\n\n// note\n\nb();\n\nc();\n', '// note')).toBe(
+			'a();\n\nb();\n\nc();\n'
+		);
+	});
+
+	it('keeps the prevailing blank line spacing of the file', () => {
+		expect(removeComments('a();\n\n\nb();\n\n\n// note\n\n\nc();\n\n\nd();\n', '// note')).toBe(
+			'a();\n\n\nb();\n\n\nc();\n\n\nd();\n'
+		);
+	});
+
+	it('leaves blank runs away from removed comments alone', () => {
+		expect(removeComments('a();\n\n\n\nb();\n// note\nc();\n', '// note')).toBe(
+			'a();\n\n\n\nb();\nc();\n'
+		);
+	});
+
+	it('removes blank lines left at the start of the file', () => {
+		expect(removeComments('// header\n\na();\n', '// header')).toBe('a();\n');
+	});
+
+	it('keeps leading blank lines the file already had', () => {
+		expect(removeComments('\n// header\n\na();\n', '// header')).toBe('\na();\n');
+	});
+
+	it('removes blank lines left at the end of the file', () => {
+		expect(removeComments('a();\n\n// footer\n', '// footer')).toBe('a();\n');
+	});
+
+	it('leaves spacing around mid-line comments untouched', () => {
+		expect(removeComments('a(/* x */ 1 /* y */);\n', '/* x */', '/* y */')).toBe('a( 1 );\n');
+	});
+});
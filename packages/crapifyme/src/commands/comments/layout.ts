@@ -0,0 +1,206 @@
+import { applyTextEdits } from '../../shared/source-map';
+import { TextEdit } from '../../shared/types';
+
+interface Line {
+	start: number;
+	end: number;
+	next: number;
+}
+
+export function normalizeLayout(content: string, edits: TextEdit[]): TextEdit[] {
+	if (edits.length === 0) {
+		return edits;
+	}
+
+	const lines = splitLines(content);
+	const sorted = edits.map(edit => keepLineEnding(content, edit)).sort((a, b) => a.start - b.start);
+	const result: TextEdit[] = [];
+	const removedLines = new Set<number>();
+	const editedLines = new Set<number>();
+	const lineAt = (position: number) => findLine(lines, position);
+
+	let index = 0;
+	while (index < sorted.length) {
+		const startLine = lineAt(sorted[index].start);
+		let endLine = lineAt(Math.max(sorted[index].start, sorted[index].end - 1));
+		let next = index + 1;
+		while (next < sorted.length && lineAt(sorted[next].start) <= endLine) {
+			endLine = Math.max(endLine, lineAt(Math.max(sorted[next].start, sorted[next].end - 1)));
+			next++;
+		}
+
+		const group = sorted.slice(index, next);
+		const spanStart = lines[startLine].start;
+		const spanEnd = lines[endLine].end;
+		index = next;
+
+		const consumesEol = group.some(edit => edit.end > spanEnd);
+		if (consumesEol || group.some(edit => edit.replacement !== '')) {
+			result.push(...group);
+			for (let line = startLine; line <= endLine; line++) {
+				(consumesEol ? removedLines : editedLines).add(line);
+			}
+			continue;
+		}
+
+		const remaining = applyTextEdits(
+			content.slice(spanStart, spanEnd),
+			group.map(edit => ({ ...edit, start: edit.start - spanStart, end: edit.end - spanStart }))
+		);
+
+		if (remaining.trim() === '') {
+			result.push({ start: spanStart, end: lines[endLine].next, replacement: '' });
+			for (let line = startLine; line <= endLine; line++) {
+				removedLines.add(line);
+			}
+			continue;
+		}
+
+		result.push(...trimAroundEdits(content, group, spanStart, spanEnd));
+		for (let line = startLine; line <= endLine; line++) {
+			editedLines.add(line);
+		}
+	}
+
+	result.push(...collapseBlankLines(content, lines, removedLines, editedLines));
+	return result.sort((a, b) => a.start - b.start);
+}
+
+function keepLineEnding(content: string, edit: TextEdit): TextEdit {
+	return edit.replacement === '' &&
+		edit.end > edit.start + 1 &&
+		content[edit.end - 1] === '\r' &&
+		content[edit.end] === '\n'
+		? { ...edit, end: edit.end - 1 }
+		: edit;
+}
+
+function trimAroundEdits(
+	content: string,
+	group: TextEdit[],
+	spanStart: number,
+	spanEnd: number
+): TextEdit[] {
+	const trimmed = group.map(edit => ({ ...edit }));
+	const first = trimmed[0];
+	const last = trimmed[trimmed.length - 1];
+
+	if (content.slice(last.end, spanEnd).trim() === '') {
+		const bound = trimmed.length > 1 ? trimmed[trimmed.length - 2].end : spanStart;
+		while (last.start > bound && /[ \t]/.test(content[last.start - 1])) {
+			last.start--;
+		}
+		last.end = spanEnd;
+	} else if (content.slice(spanStart, first.start).trim() === '') {
+		const bound = trimmed.length > 1 ? trimmed[1].start : spanEnd;
+		while (first.end < bound && /[ \t]/.test(content[first.end])) {
+			first.end++;
+		}
+	}
+
+	return trimmed;
+}
+
+function collapseBlankLines(
+	content: string,
+	lines: Line[],
+	removedLines: Set<number>,
+	editedLines: Set<number>
+): TextEdit[] {
+	const isBlank = (index: number) =>
+		content.slice(lines[index].start, lines[index].end).trim() === '';
+	const runs = countBlankRuns(lines.map((_, index) => isBlank(index)));
+	const edits: TextEdit[] = [];
+	let run: number[] = [];
+	let affected = false;
+	let atStart = true;
+
+	const closeRun = (limit: number) => {
+		if (affected) {
+			for (const index of run.slice(limit)) {
+				edits.push({ start: lines[index].start, end: lines[index].next, replacement: '' });
+			}
+		}
+		run = [];
+		affected = false;
+	};
+
+	for (let index = 0; index < lines.length; index++) {
+		if (removedLines.has(index)) {
+			affected = true;
+			continue;
+		}
+
+		if (!editedLines.has(index) && isBlank(index)) {
+			run.push(index);
+			continue;
+		}
+
+		closeRun(atStart ? runs.leading : runs.prevailing);
+		atStart = false;
+	}
+	closeRun(atStart ? runs.leading : runs.trailing);
+
+	return edits;
+}
+
+function countBlankRuns(blank: boolean[]): {
+	leading: number;
+	trailing: number;
+	prevailing: number;
+} {
+	const frequency = new Map<number, number>();
+	let current = 0;
+	blank.forEach((isBlank, index) => {
+		current = isBlank ? current + 1 : 0;
+		if (current > 0 && !blank[index + 1]) {
+			frequency.set(current, (frequency.get(current) || 0) + 1);
+		}
+	});
+
+	let prevailing = 1;
+	for (const [length, count] of frequency) {
+		const best = frequency.get(prevailing) || 0;
+		if (count > best || (count === best && length > prevailing)) {
+			prevailing = length;
+		}
+	}
+
+	const leading = blank.indexOf(false) === -1 ? blank.length : blank.indexOf(false);
+	return { leading, trailing: current, prevailing };
+}
+
+function splitLines(content: string): Line[] {
+	const lines: Line[] = [];
+	let start = 0;
+
+	while (start < content.length) {
+		const newline = content.indexOf('\n', start);
+		const next = newline === -1 ? content.length : newline + 1;
+		const end = newline === -1 ? next : content[newline - 1] === '\r' ? newline - 1 : newline;
+		lines.push({ start, end, next });
+		start = next;
+	}
+
+	if (lines.length === 0) {
+		lines.push({ start: 0, end: 0, next: 0 });
+	}
+
+	return lines;
+}
+
+function findLine(lines: Line[], position: number): number {
+	let low = 0;
+	let high = lines.length - 1;
+
+	while (low < high) {
+		const mid = (low + high + 1) >> 1;
+		if (lines[mid].start <= position) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+
+	return low;
+}
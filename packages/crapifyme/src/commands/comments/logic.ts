@@ -1,3 +1,4 @@
+import { IGNORE_DIRECTIVE_PATTERN, IgnoreDirectives } from '../../shared/directives';
 import { SimpleTokenizer } from '../../shared/tokenizer';
 import { ProcessResult } from '../../shared/types';
 
@@ -27,6 +28,7 @@ export class CommentsProcessor {
 	processFile(content: string): ProcessResult {
 		const tokenizer = new SimpleTokenizer();
 		const tokens = tokenizer.tokenize(content);
+		const directives = new IgnoreDirectives(content, 'comments');
 
 		const result: string[] = [];
 		let removed = 0;
@@ -34,7 +36,11 @@ export class CommentsProcessor {
 
 		for (const token of tokens) {
 			if (token.type === 'comment') {
-				if (this.shouldPreserveComment(token.value)) {
+				if (
+					directives.isIgnored(token.startPos) ||
+					IGNORE_DIRECTIVE_PATTERN.test(token.value) ||
+					this.shouldPreserveComment(token.value)
+				) {
 					result.push(token.value);
 					preserved++;
 				} else {
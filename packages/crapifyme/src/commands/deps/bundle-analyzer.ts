@@ -1,4 +1,5 @@
 import https from 'https';
+import { WarningHandler } from '../../shared/types';
 import { BundleAnalysis, DependencyInfo } from './types';
 
 interface NpmPackageInfo {
@@ -34,10 +35,16 @@ export class BundleAnalyzer {
 	private cache = new Map<string, NpmPackageInfo>();
 	private cacheTimeout: number;
 	private requestTimeout: number;
+	private warn: WarningHandler;
 
-	constructor(cacheTimeout: number = 3600000, requestTimeout: number = 10000) {
+	constructor(
+		cacheTimeout: number = 3600000,
+		requestTimeout: number = 10000,
+		warn: WarningHandler = message => this.warn(message)
+	) {
 		this.cacheTimeout = cacheTimeout;
 		this.requestTimeout = requestTimeout;
+		this.warn = warn;
 	}
 
 	async analyzeBundleSize(dependencies: Map<string, DependencyInfo>): Promise<BundleAnalysis> {
@@ -65,9 +72,7 @@ export class BundleAnalyzer {
 				} catch (error) {
 					if (i < 3) {
 						// Only warn for first few failures
-						console.warn(
-							`\nWarning: Could not get size for ${pkg.name}: ${(error as Error).message}`
-						);
+						this.warn(`\nWarning: Could not get size for ${pkg.name}: ${(error as Error).message}`);
 					}
 				}
 			}
@@ -284,7 +289,7 @@ export class BundleAnalyzer {
 
 				await this.delay(300);
 			} catch (error) {
-				console.warn(`Warning: Failed to get size for ${pkg}: ${(error as Error).message}`);
+				this.warn(`Warning: Failed to get size for ${pkg}: ${(error as Error).message}`);
 			}
 		}
 
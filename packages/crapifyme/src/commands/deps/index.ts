@@ -1,7 +1,41 @@
-import { Command } from 'commander';
-import { Logger, detectVersionControl, ExitCode } from '../../shared';
+import { Command, Option } from 'commander';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+	Logger,
+	detectVersionControl,
+	ExitCode,
+	createReporter,
+	Reporter,
+	ReporterError,
+	loadBaseline,
+	BaselineError,
+	DEFAULT_BASELINE_FILE,
+	FindingLevel
+} from '../../shared';
 import { DepsProcessor } from './logic';
-import { DepsStats, AnalysisType, OutputFormat } from './types';
+import {
+	DepsStats,
+	AnalysisType,
+	OutputFormat,
+	SecurityVulnerability,
+	ProjectAnalysis,
+	DependencyInfo
+} from './types';
+
+const VULNERABILITY_SEVERITIES: SecurityVulnerability['severity'][] = [
+	'low',
+	'moderate',
+	'high',
+	'critical'
+];
+
+const DEPS_REPORT_LEVELS: Record<SecurityVulnerability['severity'], FindingLevel> = {
+	critical: 'error',
+	high: 'error',
+	moderate: 'warning',
+	low: 'note'
+};
 
 export const depsCommand = new Command('deps')
 	.description('Analyze and optimize project dependencies')
@@ -21,11 +55,24 @@ export const depsCommand = new Command('deps')
 	.option('--output <format>', 'Output format (table|json|tree|summary)', 'table')
 	.option('--no-security', 'Skip security vulnerability checks')
 	.option('--no-bundle-size', 'Skip bundle size analysis')
+	.option('--baseline <file>', 'Only report findings that are not recorded in the baseline file')
+	.option(
+		'--update-baseline',
+		`Record current findings in the baseline file (default: ${DEFAULT_BASELINE_FILE})`
+	)
+	.addOption(
+		new Option(
+			'--fail-on <severity>',
+			'Exit with code 1 only for vulnerabilities at or above this severity'
+		).choices(VULNERABILITY_SEVERITIES)
+	)
+	.option('--reporter <format>', 'Write findings as a report (sarif, junit)')
+	.option('--reporter-output <file>', 'Report file path (default: crapifyme-<command>.<ext>)')
 	.action(async (projectPath: string, options: any, command: Command) => {
 		const globalOptions = command.parent?.opts() || {};
 		const logger = new Logger(globalOptions.verbose, globalOptions.quiet, globalOptions.json);
 
-		if (!globalOptions.force) {
+		if (!globalOptions.force && !globalOptions.check) {
 			const vcsResult = detectVersionControl();
 			if (!vcsResult.detected) {
 				logger.error(
@@ -44,6 +91,8 @@ export const depsCommand = new Command('deps')
 		}
 
 		try {
+			const reporter = createReporter(options, 'deps');
+			const baseline = await loadBaseline(options, 'deps');
 			const analysisTypes = determineAnalysisTypes(options);
 
 			if (!globalOptions.quiet) {
@@ -84,25 +133,56 @@ export const depsCommand = new Command('deps')
 
 			const result = await processor.analyzeProject(analysisTypes);
 
+			const packageJsonPath = path.join(projectPath, 'package.json');
+			const { dependencies } = result.analysis;
+			const isNew = (ruleId: string, context: string) =>
+				!baseline || baseline.isNew({ file: packageJsonPath, ruleId, context });
+
+			baseline?.addFile(packageJsonPath);
+			const newVulnerabilities = result.analysis.security.vulnerabilities.filter(vulnerability =>
+				isNew(vulnerability.id, `${vulnerability.packageName} ${vulnerability.vulnerable_versions}`)
+			);
+			const newOutdated = [
+				...dependencies.production,
+				...dependencies.development,
+				...dependencies.peer,
+				...dependencies.optional
+			].filter(
+				dep => dep.isOutdated && isNew('deps/outdated', `${dep.name}@${dep.currentVersion}`)
+			);
+			const newUnused = result.analysis.unusedDependencies.filter(name =>
+				isNew('deps/unused', name)
+			);
+			const analysis =
+				baseline && !baseline.updating
+					? filterAnalysis(result.analysis, newVulnerabilities, newOutdated, newUnused)
+					: result.analysis;
+
 			const stats: DepsStats = {
 				filesAnalyzed: 1,
-				dependenciesScanned:
-					result.analysis.summary.total.production + result.analysis.summary.total.development,
-				vulnerabilitiesFound: result.analysis.security.vulnerabilities.length,
-				outdatedPackages: result.analysis.summary.outdated,
-				unusedPackages: result.analysis.unusedDependencies.length,
+				dependenciesScanned: analysis.summary.total.production + analysis.summary.total.development,
+				vulnerabilitiesFound: analysis.security.vulnerabilities.length,
+				outdatedPackages: analysis.summary.outdated,
+				unusedPackages: analysis.unusedDependencies.length,
 				sizeSavingsIdentified: 0,
 				errors: result.errors.map(e => ({ message: e.message, type: e.type }))
 			};
 
+			const reportPath = reporter
+				? await reportVulnerabilities(reporter, packageJsonPath, newVulnerabilities)
+				: null;
+			if (baseline?.updating) {
+				await baseline.save();
+			}
+
 			if (globalOptions.json) {
 				if (options.output === 'summary') {
 					logger.json(stats);
 				} else {
 					logger.json({
 						analysis: {
-							...result.analysis,
-							duplicateDependencies: Object.fromEntries(result.analysis.duplicateDependencies)
+							...analysis,
+							duplicateDependencies: Object.fromEntries(analysis.duplicateDependencies)
 						},
 						stats,
 						errors: result.errors,
@@ -111,7 +191,12 @@ export const depsCommand = new Command('deps')
 					});
 				}
 			} else {
-				await displayResults(result, options.output as OutputFormat, logger, stats);
+				await displayResults(
+					{ ...result, analysis },
+					options.output as OutputFormat,
+					logger,
+					stats
+				);
 			}
 
 			if (result.errors.length > 0) {
@@ -128,12 +213,41 @@ export const depsCommand = new Command('deps')
 				result.warnings.forEach(warning => logger.warn(`${warning.type}: ${warning.message}`));
 			}
 
+			if (reportPath) {
+				logger.info(`Report written to ${reportPath}`);
+			}
+
+			if (baseline?.updating) {
+				logger.info(
+					`Baseline updated: ${baseline.size} finding${baseline.size === 1 ? '' : 's'} recorded in ${baseline.filePath}`
+				);
+			} else if (baseline && baseline.suppressed > 0) {
+				logger.info(
+					`Baseline: ${baseline.suppressed} known finding${baseline.suppressed === 1 ? '' : 's'} suppressed`
+				);
+			}
+
 			if (globalOptions.verbose) {
 				logger.info(`Analysis completed in ${result.processingTime}ms`);
 			}
 
-			const hasIssues =
-				stats.vulnerabilitiesFound > 0 || stats.outdatedPackages > 0 || stats.unusedPackages > 0;
+			const failingVulnerabilities = options.failOn
+				? newVulnerabilities.filter(
+						vulnerability =>
+							VULNERABILITY_SEVERITIES.indexOf(vulnerability.severity) >=
+							VULNERABILITY_SEVERITIES.indexOf(options.failOn)
+					).length
+				: 0;
+
+			if (failingVulnerabilities > 0) {
+				logger.error(
+					`${failingVulnerabilities} vulnerabilit${failingVulnerabilities === 1 ? 'y' : 'ies'} at or above ${options.failOn} severity`
+				);
+			}
+
+			const hasIssues = options.failOn
+				? failingVulnerabilities > 0
+				: newVulnerabilities.length > 0 || newOutdated.length > 0 || newUnused.length > 0;
 			const exitCode =
 				result.errors.length > 0
 					? ExitCode.Error
@@ -145,7 +259,9 @@ export const depsCommand = new Command('deps')
 		} catch (error) {
 			const errorMessage = (error as Error).message;
 
-			if (errorMessage.includes('No package.json found')) {
+			if (error instanceof ReporterError || error instanceof BaselineError) {
+				logger.error(errorMessage);
+			} else if (errorMessage.includes('No package.json found')) {
 				logger.error('No package.json found in current directory or any parent directory');
 				logger.info("Make sure you're running this command from within a Node.js project");
 			} else if (errorMessage.includes('No supported package manager detected')) {
@@ -175,6 +291,70 @@ function determineAnalysisTypes(options: any): AnalysisType[] {
 	return [AnalysisType.FULL];
 }
 
+async function reportVulnerabilities(
+	reporter: Reporter,
+	packageJsonPath: string,
+	vulnerabilities: SecurityVulnerability[]
+): Promise<string> {
+	const packageJson = await fs.readFile(packageJsonPath, 'utf-8').catch(() => '');
+	const lines = packageJson.split('\n');
+
+	reporter.addFile(packageJsonPath);
+	for (const vulnerability of vulnerabilities) {
+		const lineIndex = lines.findIndex(line => line.includes(`"${vulnerability.packageName}"`));
+		const fix = vulnerability.patched_versions
+			? ` Upgrade to ${vulnerability.patched_versions}.`
+			: vulnerability.recommendation
+				? ` ${vulnerability.recommendation}`
+				: '';
+
+		reporter.addFinding(
+			{
+				ruleId: vulnerability.id,
+				message: `${vulnerability.packageName}: ${vulnerability.title} (${vulnerability.severity}, affects ${vulnerability.vulnerable_versions}).${fix}`,
+				level: DEPS_REPORT_LEVELS[vulnerability.severity],
+				file: packageJsonPath,
+				...(lineIndex !== -1 && {
+					line: lineIndex + 1,
+					column: lines[lineIndex].indexOf(`"${vulnerability.packageName}"`) + 1
+				})
+			},
+			{ id: vulnerability.id, description: vulnerability.title }
+		);
+	}
+
+	return reporter.save();
+}
+
+function filterAnalysis(
+	analysis: ProjectAnalysis,
+	vulnerabilities: SecurityVulnerability[],
+	outdated: DependencyInfo[],
+	unused: string[]
+): ProjectAnalysis {
+	const reported = new Set(outdated);
+	const markOutdated = (deps: DependencyInfo[]) =>
+		deps.map(dep => (dep.isOutdated && !reported.has(dep) ? { ...dep, isOutdated: false } : dep));
+
+	return {
+		...analysis,
+		dependencies: {
+			production: markOutdated(analysis.dependencies.production),
+			development: markOutdated(analysis.dependencies.development),
+			peer: markOutdated(analysis.dependencies.peer),
+			optional: markOutdated(analysis.dependencies.optional)
+		},
+		summary: {
+			...analysis.summary,
+			outdated: outdated.length,
+			vulnerable: vulnerabilities.length,
+			unused: unused.length
+		},
+		security: { ...analysis.security, vulnerabilities },
+		unusedDependencies: unused
+	};
+}
+
 async function displayResults(
 	result: any,
 	format: OutputFormat,
@@ -34,12 +34,17 @@ export class DepsProcessor {
 			timeout: 120000,
 			cacheTimeout: 3600000,
 			verbose: false,
+			onWarning: message => this.options.onWarning(message),
 			...options
 		};
 
-		this.packageAnalyzer = new PackageAnalyzer(cwd);
-		this.securityScanner = new SecurityScanner(cwd, this.options.timeout);
-		this.bundleAnalyzer = new BundleAnalyzer(this.options.cacheTimeout);
+		this.packageAnalyzer = new PackageAnalyzer(cwd, this.options.onWarning);
+		this.securityScanner = new SecurityScanner(cwd, this.options.timeout, this.options.onWarning);
+		this.bundleAnalyzer = new BundleAnalyzer(
+			this.options.cacheTimeout,
+			10000,
+			this.options.onWarning
+		);
 	}
 
 	async analyzeProject(
@@ -307,7 +312,7 @@ export class DepsProcessor {
 			return depcheckResult.dependencies || [];
 		} catch (error) {
 			if (this.options.verbose) {
-				console.warn(
+				this.options.onWarning(
 					'Note: Install depcheck to analyze unused dependencies: npm install -g depcheck'
 				);
 			}
@@ -2,6 +2,7 @@ import { exec } from 'child_process';
 import fs from 'fs/promises';
 import path from 'path';
 import { promisify } from 'util';
+import { WarningHandler } from '../../shared/types';
 import {
 	PackageInfo,
 	DependencyInfo,
@@ -15,9 +16,11 @@ const execAsync = promisify(exec);
 export class PackageAnalyzer {
 	private cwd: string;
 	private packageManager: PackageManagerInfo | null = null;
+	private warn: WarningHandler;
 
-	constructor(cwd: string = process.cwd()) {
+	constructor(cwd: string = process.cwd(), warn: WarningHandler = message => this.warn(message)) {
 		this.cwd = cwd;
+		this.warn = warn;
 	}
 
 	private async findProjectRoot(): Promise<string | null> {
@@ -133,8 +136,8 @@ export class PackageAnalyzer {
 				(!pkgJson.dependencies || Object.keys(pkgJson.dependencies).length === 0);
 
 			if (isWorkspaceRoot) {
-				console.warn('⚠️  Running in workspace root with minimal dependencies.');
-				console.warn(
+				this.warn('⚠️  Running in workspace root with minimal dependencies.');
+				this.warn(
 					'💡 For better analysis, run from a specific workspace package (e.g., cd packages/website && npx crapifyme deps)'
 				);
 			}
@@ -244,7 +247,7 @@ export class PackageAnalyzer {
 			}
 		} catch (error) {
 			if ((error as any).code !== 1) {
-				console.warn(`Warning: Failed to check outdated dependencies: ${(error as Error).message}`);
+				this.warn(`Warning: Failed to check outdated dependencies: ${(error as Error).message}`);
 			}
 		}
 
@@ -271,7 +274,7 @@ export class PackageAnalyzer {
 				});
 			}
 		} catch (error) {
-			console.warn(`Warning: Failed to parse npm outdated output: ${(error as Error).message}`);
+			this.warn(`Warning: Failed to parse npm outdated output: ${(error as Error).message}`);
 		}
 
 		return outdated;
@@ -304,7 +307,7 @@ export class PackageAnalyzer {
 				}
 			}
 		} catch (error) {
-			console.warn(`Warning: Failed to parse yarn outdated output: ${(error as Error).message}`);
+			this.warn(`Warning: Failed to parse yarn outdated output: ${(error as Error).message}`);
 		}
 
 		return outdated;
@@ -333,7 +336,7 @@ export class PackageAnalyzer {
 				}
 			}
 		} catch (error) {
-			console.warn(`Warning: Failed to parse pnpm outdated output: ${(error as Error).message}`);
+			this.warn(`Warning: Failed to parse pnpm outdated output: ${(error as Error).message}`);
 		}
 
 		return outdated;
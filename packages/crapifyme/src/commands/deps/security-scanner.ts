@@ -1,5 +1,6 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { WarningHandler } from '../../shared/types';
 import { SecurityVulnerability, PackageManagerInfo } from './types';
 
 const execAsync = promisify(exec);
@@ -7,10 +8,16 @@ const execAsync = promisify(exec);
 export class SecurityScanner {
 	private cwd: string;
 	private timeout: number;
+	private warn: WarningHandler;
 
-	constructor(cwd: string = process.cwd(), timeout: number = 60000) {
+	constructor(
+		cwd: string = process.cwd(),
+		timeout: number = 60000,
+		warn: WarningHandler = message => this.warn(message)
+	) {
 		this.cwd = cwd;
 		this.timeout = timeout;
+		this.warn = warn;
 	}
 
 	async scanVulnerabilities(packageManager: PackageManagerInfo): Promise<{
@@ -73,9 +80,9 @@ export class SecurityScanner {
 			// Only warn for actual command failures, not normal audit findings
 			if (error.code !== 1) {
 				if (packageManager.type === 'yarn' && error.message.includes('audit')) {
-					console.warn(`Note: Yarn v1 audit has limited compatibility. Security analysis skipped.`);
+					this.warn(`Note: Yarn v1 audit has limited compatibility. Security analysis skipped.`);
 				} else {
-					console.warn(`Warning: Security audit failed: ${error.message}`);
+					this.warn(`Warning: Security audit failed: ${error.message}`);
 				}
 			}
 
@@ -165,7 +172,7 @@ export class SecurityScanner {
 				}
 			}
 		} catch (error) {
-			console.warn(`Warning: Failed to parse npm audit output: ${(error as Error).message}`);
+			this.warn(`Warning: Failed to parse npm audit output: ${(error as Error).message}`);
 		}
 
 		return { vulnerabilities, summary };
@@ -212,7 +219,7 @@ export class SecurityScanner {
 				}
 			}
 		} catch (error) {
-			console.warn(`Warning: Failed to parse yarn audit output: ${(error as Error).message}`);
+			this.warn(`Warning: Failed to parse yarn audit output: ${(error as Error).message}`);
 		}
 
 		return { vulnerabilities, summary };
@@ -257,7 +264,7 @@ export class SecurityScanner {
 				}
 			}
 		} catch (error) {
-			console.warn(`Warning: Failed to parse pnpm audit output: ${(error as Error).message}`);
+			this.warn(`Warning: Failed to parse pnpm audit output: ${(error as Error).message}`);
 		}
 
 		return { vulnerabilities, summary };
@@ -357,7 +364,7 @@ export class SecurityScanner {
 				];
 			}
 		} catch (error) {
-			console.warn(`Warning: Failed to check package ${packageName}: ${(error as Error).message}`);
+			this.warn(`Warning: Failed to check package ${packageName}: ${(error as Error).message}`);
 		}
 
 		return [];
@@ -1,3 +1,5 @@
+import { WarningHandler } from '../../shared/types';
+
 export interface PackageInfo {
 	name: string;
 	version: string;
@@ -135,6 +137,7 @@ export interface DepsProcessorOptions {
 	timeout?: number;
 	cacheTimeout?: number;
 	verbose?: boolean;
+	onWarning?: WarningHandler;
 }
 
 export interface DepsAnalysisResult {
@@ -1,13 +1,19 @@
 import fs from 'fs';
 import path from 'path';
+import { WarningHandler } from '../../shared/types';
 import { FrameworkConfig, PathAlias } from './types';
 
 export class FrameworkDetector {
 	private projectRoot: string;
 	private packageJsonCache?: any;
+	private warn: WarningHandler;
 
-	constructor(projectRoot: string = process.cwd()) {
+	constructor(
+		projectRoot: string = process.cwd(),
+		warn: WarningHandler = message => this.warn(message)
+	) {
 		this.projectRoot = projectRoot;
+		this.warn = warn;
 	}
 
 	detectFramework(): FrameworkConfig | null {
@@ -303,7 +309,7 @@ export class FrameworkDetector {
 				this.packageJsonCache = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
 				return this.packageJsonCache;
 			} catch (error) {
-				console.warn(`Warning: Could not parse package.json: ${(error as Error).message}`);
+				this.warn(`Warning: Could not parse package.json: ${(error as Error).message}`);
 			}
 		}
 
@@ -348,7 +354,7 @@ export class FrameworkDetector {
 				}
 			}
 		} catch (error) {
-			console.warn(`Warning: Could not parse Next.js config: ${(error as Error).message}`);
+			this.warn(`Warning: Could not parse Next.js config: ${(error as Error).message}`);
 		}
 
 		return aliases;
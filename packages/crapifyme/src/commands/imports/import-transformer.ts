@@ -278,7 +278,7 @@ export class ImportTransformer {
 		return imports.map(importStmt => this.renderImport(importStmt)).join('\n');
 	}
 
-	private renderImport(importStmt: ImportStatement): string {
+	renderImport(importStmt: ImportStatement): string {
 		const comments = this.renderComments(importStmt);
 		const importLine = this.renderImportLine(importStmt);
 
@@ -3,10 +3,19 @@ import {
 	Logger,
 	findFiles,
 	createFilePatterns,
+	getGitScopedFiles,
+	GitError,
 	readFile,
 	writeFile,
 	detectVersionControl,
-	ExitCode
+	ExitCode,
+	createDiffCollector,
+	DiffError,
+	formatDiff,
+	FileWatcher,
+	watchUntilInterrupted,
+	SyntaxValidator,
+	RunJournal
 } from '../../shared';
 import { ImportsProcessor } from './logic';
 import { ImportsStats, PathAlias } from './types';
@@ -32,11 +41,14 @@ export const importsCommand = new Command('imports')
 	.option('-e, --extensions <ext>', 'File extensions to process', 'js,ts,jsx,tsx,vue,svelte')
 	.option('-x, --exclude <patterns>', 'Glob patterns to exclude')
 	.option('--no-preserve-comments', 'Remove comments from import statements')
+	.option('--diff', 'Show a unified diff instead of writing changes')
+	.option('--diff-output <file>', 'Save the unified diff to <file> instead of writing changes')
+	.option('--watch', 'Watch files and re-process them when they change')
 	.action(async (paths: string[], options: any, command: Command) => {
 		const globalOptions = command.parent?.opts() || {};
 		const logger = new Logger(globalOptions.verbose, globalOptions.quiet, globalOptions.json);
 
-		if (!globalOptions.force) {
+		if (!globalOptions.force && !globalOptions.check) {
 			const vcsResult = detectVersionControl();
 			if (!vcsResult.detected) {
 				logger.error(
@@ -68,19 +80,33 @@ export const importsCommand = new Command('imports')
 				logger.info(`Exclude patterns: ${excludePatterns.join(', ')}`);
 			}
 
-			const files = await findFiles(patterns, excludePatterns);
+			const gitFiles = await getGitScopedFiles(globalOptions);
+			if (gitFiles) {
+				logger.info(
+					`Git scope: ${gitFiles.length} changed file${gitFiles.length === 1 ? '' : 's'}`
+				);
+			}
+
+			const files = await findFiles(patterns, excludePatterns, gitFiles);
 
 			if (files.length === 0) {
 				logger.warn('No files found to process');
 				logger.info(`Searched in: ${paths.join(', ')}`);
 				logger.info(`Extensions: ${extensions.join(', ')}`);
-				process.exit(ExitCode.Success);
+				if (!options.watch || globalOptions.check) {
+					process.exit(ExitCode.Success);
+				}
 			}
 
 			logger.info(`Found ${files.length} file${files.length === 1 ? '' : 's'} to process`);
 
-			if (globalOptions.dryRun) {
-				logger.info('DRY RUN - No files will be modified');
+			const diffCollector = createDiffCollector(options.diff, options.diffOutput);
+			const previewOnly = globalOptions.dryRun || globalOptions.check || diffCollector !== null;
+
+			if (previewOnly) {
+				logger.info(
+					`${globalOptions.check ? 'CHECK MODE' : 'DRY RUN'} - No files will be modified`
+				);
 			}
 
 			let aliases: PathAlias[] = [];
@@ -110,6 +136,8 @@ export const importsCommand = new Command('imports')
 				preserveComments: options.preserveComments,
 				verbose: globalOptions.verbose
 			});
+			const validator = new SyntaxValidator();
+			const journal = previewOnly ? null : new RunJournal('imports');
 
 			const stats: ImportsStats = {
 				filesProcessed: 0,
@@ -120,13 +148,17 @@ export const importsCommand = new Command('imports')
 				errors: []
 			};
 
-			for (const file of files) {
+			let watcher: FileWatcher | null = null;
+
+			const processFile = async (file: string) => {
 				try {
 					const content = await readFile(file);
 					const result = processor.processFile(content, file);
+					validator.validate(file, content, result.content);
 
-					if (result.modified && !globalOptions.dryRun) {
-						await writeFile(file, result.content);
+					if (result.modified && !previewOnly) {
+						watcher?.markWritten(file, result.content);
+						await writeFile(file, result.content, journal);
 					}
 
 					stats.filesProcessed++;
@@ -145,6 +177,13 @@ export const importsCommand = new Command('imports')
 						}
 						if (result.optimized > 0) {
 						}
+
+						if (diffCollector) {
+							const fileDiff = diffCollector.add(file, content, result.content);
+							if (!globalOptions.json && !diffCollector.writesToFile && fileDiff.patch) {
+								console.log(formatDiff(fileDiff));
+							}
+						}
 					} else if (globalOptions.verbose) {
 						logger.info(`${file} - No import optimizations needed`);
 					}
@@ -164,14 +203,24 @@ export const importsCommand = new Command('imports')
 					stats.errors.push({ file, error: (error as Error).message });
 					logger.error(`Failed to process ${file}`, error as Error);
 				}
+			};
+
+			for (const file of files) {
+				await processFile(file);
 			}
 
+			const patchPath = diffCollector ? await diffCollector.save(files) : null;
+
 			if (globalOptions.json) {
-				logger.json(stats);
+				logger.json(diffCollector ? { ...stats, diffs: diffCollector.getDiffs() } : stats);
 			} else {
 				if (stats.errors.length > 0) {
+					const parsingErrors = validator.getErrors().length;
 					logger.error(
-						`Processing completed with ${stats.errors.length} error${stats.errors.length === 1 ? '' : 's'}`
+						`Processing completed with ${stats.errors.length} error${stats.errors.length === 1 ? '' : 's'}` +
+							(parsingErrors > 0
+								? ` (${parsingErrors} left unchanged because the output no longer parsed)`
+								: '')
 					);
 				} else {
 					logger.success('Import optimization completed successfully');
@@ -192,10 +241,30 @@ export const importsCommand = new Command('imports')
 				}
 				logger.info(`Total optimizations: ${stats.importsOptimized}`);
 
-				if (globalOptions.dryRun && stats.importsOptimized > 0) {
-					logger.warn('DRY RUN MODE - No files were actually modified');
-					logger.info('Remove --dry-run to apply changes');
+				if (patchPath) {
+					logger.info(`Patch written to ${patchPath}`);
 				}
+
+				if (previewOnly && !globalOptions.check && stats.importsOptimized > 0) {
+					if (globalOptions.dryRun) {
+						logger.warn('DRY RUN MODE - No files were actually modified');
+						logger.info('Remove --dry-run to apply changes');
+					} else {
+						logger.info(
+							`No files were modified; remove ${options.diffOutput ? '--diff-output' : '--diff'} to apply changes`
+						);
+					}
+				}
+			}
+
+			if (options.watch && !globalOptions.check) {
+				watcher = new FileWatcher(
+					{ paths, extensions, exclude: excludePatterns, logger },
+					processFile
+				);
+				await watcher.start();
+				watchUntilInterrupted(watcher, logger);
+				return;
 			}
 
 			const exitCode =
@@ -206,7 +275,10 @@ export const importsCommand = new Command('imports')
 						: ExitCode.Success;
 			process.exit(exitCode);
 		} catch (error) {
-			logger.error('Fatal error', error as Error);
+			logger.error(
+				error instanceof GitError || error instanceof DiffError ? error.message : 'Fatal error',
+				error as Error
+			);
 			process.exit(ExitCode.Error);
 		}
 	});
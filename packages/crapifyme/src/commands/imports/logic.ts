@@ -2,6 +2,9 @@ import { ASTAnalyzer } from './ast-analyzer';
 import { FrameworkDetector } from './framework-detector';
 import { ImportTransformer } from './import-transformer';
 import { PathResolver } from './path-resolver';
+import { IgnoreDirectives } from '../../shared/directives';
+import { RawSourceMap, applyTextEdits, createSourceMap } from '../../shared/source-map';
+import { TextEdit } from '../../shared/types';
 import {
 	ImportsProcessorOptions,
 	ImportTransformResult,
@@ -28,12 +31,14 @@ export class ImportsProcessor {
 			preserveComments: options.preserveComments !== false,
 			framework: options.framework || '',
 			extensions: options.extensions || ['js', 'jsx', 'ts', 'tsx', 'vue', 'svelte'],
-			verbose: options.verbose || false
+			verbose: options.verbose || false,
+			sourceMap: options.sourceMap === true,
+			onWarning: options.onWarning || (message => console.warn(message))
 		};
 
 		this.astAnalyzer = new ASTAnalyzer();
-		this.pathResolver = new PathResolver();
-		this.frameworkDetector = new FrameworkDetector();
+		this.pathResolver = new PathResolver(process.cwd(), this.options.onWarning);
+		this.frameworkDetector = new FrameworkDetector(process.cwd(), this.options.onWarning);
 
 		this.initializeFramework();
 		this.initializeAliases();
@@ -41,11 +46,16 @@ export class ImportsProcessor {
 		this.transformer = new ImportTransformer(this.getTransformOptions());
 	}
 
-	processFile(content: string, filePath: string): ImportTransformResult {
+	processFile(
+		content: string,
+		filePath: string,
+		inputMap?: RawSourceMap | null
+	): ImportTransformResult {
 		try {
 			const originalImportCount = this.countImports(content);
+			const directives = new IgnoreDirectives(content, 'imports');
 
-			if (originalImportCount === 0) {
+			if (originalImportCount === 0 || directives.ignoresFile) {
 				return {
 					content,
 					modified: false,
@@ -67,7 +77,8 @@ export class ImportsProcessor {
 				const beforeCount = processedImports.length;
 				processedImports = this.removeUnusedImports(
 					processedImports,
-					analysisResult.usedIdentifiers
+					analysisResult.usedIdentifiers,
+					directives
 				);
 				unusedRemoved = beforeCount - processedImports.length;
 			}
@@ -96,7 +107,7 @@ export class ImportsProcessor {
 				};
 			}
 
-			let newContent = content;
+			let edits: TextEdit[] = [];
 
 			if (hasContentChanges) {
 				const transformedImports = this.transformer.transformImports(
@@ -104,26 +115,24 @@ export class ImportsProcessor {
 					filePath,
 					content
 				);
-				newContent = this.replaceImportsInContent(
-					content,
-					transformedImports,
-					analysisResult.imports
-				);
+				edits = this.replaceImportsInContent(transformedImports, analysisResult.imports);
 			} else if (hasStructureChanges) {
-				newContent = this.reorderImportsInContent(
-					content,
-					processedImports,
-					analysisResult.imports
-				);
+				edits = this.reorderImportsInContent(content, processedImports, analysisResult.imports);
 			}
 
+			const newContent = applyTextEdits(content, edits);
+
 			return {
 				content: newContent,
 				modified: content !== newContent,
 				optimized: Math.max(unusedRemoved, duplicatesMerged, pathsConverted),
 				unusedRemoved,
 				duplicatesMerged,
-				pathsConverted
+				pathsConverted,
+				edits,
+				map: this.options.sourceMap
+					? createSourceMap(content, edits, { source: filePath, inputMap })
+					: undefined
 			};
 		} catch (error) {
 			return {
@@ -180,14 +189,28 @@ export class ImportsProcessor {
 		return matches ? matches.length : 0;
 	}
 
-	private removeUnusedImports(imports: any[], usedIdentifiers: Set<string>): any[] {
+	private removeUnusedImports(
+		imports: any[],
+		usedIdentifiers: Set<string>,
+		directives: IgnoreDirectives
+	): any[] {
+		const isIgnored = (importStmt: any) =>
+			importStmt.startPos !== undefined && directives.isIgnored(importStmt.startPos);
+
 		return imports
 			.filter(importStmt => {
-				return importStmt.specifiers.some((spec: any) => {
-					return usedIdentifiers.has(spec.local);
-				});
+				return (
+					isIgnored(importStmt) ||
+					importStmt.specifiers.some((spec: any) => {
+						return usedIdentifiers.has(spec.local);
+					})
+				);
 			})
 			.map(importStmt => {
+				if (isIgnored(importStmt)) {
+					return importStmt;
+				}
+
 				const usedSpecifiers = importStmt.specifiers.filter((spec: any) => {
 					return usedIdentifiers.has(spec.local);
 				});
@@ -247,8 +270,8 @@ export class ImportsProcessor {
 		content: string,
 		processedImports: any[],
 		originalImports: any[]
-	): string {
-		if (originalImports.length === 0) return content;
+	): TextEdit[] {
+		if (originalImports.length === 0) return [];
 
 		const sourceToString = new Map<string, string>();
 		originalImports.forEach(imp => {
@@ -270,39 +293,23 @@ export class ImportsProcessor {
 			.map(imp => sourceToString.get(imp.source) || '')
 			.filter(Boolean);
 
-		return this.replaceImportBlock(content, originalImports, reorderedStrings.join('\n'));
+		return this.replaceImportBlock(originalImports, reorderedStrings.join('\n'));
 	}
 
-	private replaceImportsInContent(
-		content: string,
-		transformedImports: string,
-		originalImports: any[]
-	): string {
-		if (originalImports.length === 0) {
-			return content;
-		}
-
+	private replaceImportsInContent(transformedImports: string, originalImports: any[]): TextEdit[] {
 		const sortedImports = [...originalImports]
 			.filter(imp => imp.startPos !== undefined && imp.endPos !== undefined)
-			.sort((a, b) => b.startPos - a.startPos);
+			.sort((a, b) => a.startPos - b.startPos);
 
 		if (sortedImports.length === 0) {
-			return content;
+			return [];
 		}
 
-		let result = content;
-
-		for (const importStmt of sortedImports) {
-			const before = result.substring(0, importStmt.startPos);
-			const after = result.substring(importStmt.endPos);
-			result = before + after;
-		}
-
-		const firstImportPos = Math.min(...originalImports.map(i => i.startPos));
-		const beforeFirst = result.substring(0, firstImportPos);
-		const afterFirst = result.substring(firstImportPos);
-
-		return beforeFirst + transformedImports + afterFirst;
+		return sortedImports.map((importStmt, index) => ({
+			start: importStmt.startPos,
+			end: importStmt.endPos,
+			replacement: index === 0 ? transformedImports : ''
+		}));
 	}
 
 	private groupImportsForReorder(imports: any[], shouldSort: boolean = false): any[] {
@@ -335,22 +342,15 @@ export class ImportsProcessor {
 		return [...imports].sort((a, b) => a.source.localeCompare(b.source));
 	}
 
-	private replaceImportBlock(
-		content: string,
-		originalImports: any[],
-		newImportsBlock: string
-	): string {
-		if (originalImports.length === 0) return content;
+	private replaceImportBlock(originalImports: any[], newImportsBlock: string): TextEdit[] {
+		if (originalImports.length === 0) return [];
 
 		const firstImport = originalImports.reduce((min, imp) =>
 			imp.startPos < min.startPos ? imp : min
 		);
 		const lastImport = originalImports.reduce((max, imp) => (imp.endPos > max.endPos ? imp : max));
 
-		const before = content.substring(0, firstImport.startPos);
-		const after = content.substring(lastImport.endPos);
-
-		return before + newImportsBlock + after;
+		return [{ start: firstImport.startPos, end: lastImport.endPos, replacement: newImportsBlock }];
 	}
 
 	static parseAliasesFromString(aliasString: string): PathAlias[] {
@@ -1,14 +1,20 @@
 import fs from 'fs';
 import path from 'path';
+import { WarningHandler } from '../../shared/types';
 import { PathAlias } from './types';
 
 export class PathResolver {
 	private aliases: PathAlias[] = [];
 	private projectRoot: string;
 	private tsConfigPaths: Record<string, string[]> = {};
+	private warn: WarningHandler;
 
-	constructor(projectRoot: string = process.cwd()) {
+	constructor(
+		projectRoot: string = process.cwd(),
+		warn: WarningHandler = message => this.warn(message)
+	) {
 		this.projectRoot = projectRoot;
+		this.warn = warn;
 		this.loadTsConfigPaths();
 	}
 
@@ -145,7 +151,7 @@ export class PathResolver {
 					this.addAlias('*', baseUrl + '/*');
 				}
 			} catch (error) {
-				console.warn(`Warning: Could not parse tsconfig.json: ${(error as Error).message}`);
+				this.warn(`Warning: Could not parse tsconfig.json: ${(error as Error).message}`);
 			}
 		}
 	}
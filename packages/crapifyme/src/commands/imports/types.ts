@@ -1,3 +1,6 @@
+import { RawSourceMap } from '../../shared/source-map';
+import { TextEdit, WarningHandler } from '../../shared/types';
+
 export interface ImportStatement {
 	source: string;
 	specifiers: ImportSpecifier[];
@@ -66,6 +69,8 @@ export interface ImportsProcessorOptions extends ImportTransformOptions {
 	framework?: string;
 	extensions?: string[];
 	verbose?: boolean;
+	sourceMap?: boolean;
+	onWarning?: WarningHandler;
 }
 
 export interface ImportTransformResult {
@@ -75,6 +80,8 @@ export interface ImportTransformResult {
 	unusedRemoved: number;
 	duplicatesMerged: number;
 	pathsConverted: number;
+	edits?: TextEdit[];
+	map?: RawSourceMap;
 	errors?: string[];
 	warnings?: string[];
 }
@@ -0,0 +1,90 @@
+import { applyTextEdits } from '../../shared/source-map';
+import { LogCallAnalyzer, createRemovalEdit } from './ast-analyzer';
+
+function removeLogs(content: string, filePath: string = 'input.js'): string {
+	const analysis = new LogCallAnalyzer().analyze(content, filePath, 'js');
+	return applyTextEdits(
+		content,
+		analysis.sites.map(site => createRemovalEdit(content, site))
+	);
+}
+
+describe('createRemovalEdit', () => {
+	it('removes a statement together with its line', () => {
+		expect(removeLogs('a();\nconsole.log(1);\nb();\n')).toBe('a();\nb();\n');
+	});
+
+	it('keeps the rest of a line shared with other statements', () => {
+		expect(removeLogs('a(); console.log(1); b();\n')).toBe('a(); b();\n');
+	});
+
+	it('replaces a statement body with an empty block', () => {
+		expect(removeLogs('if (a) console.log(1);\nelse b();\n')).toBe('if (a) {}\nelse b();\n');
+	});
+
+	it('replaces an arrow body with an empty block', () => {
+		expect(removeLogs('const g = () => console.log(1);\n')).toBe('const g = () => {};\n');
+	});
+
+	it('replaces a parenthesized arrow body with void 0', () => {
+		expect(removeLogs('const g = () => (console.log(1));\n')).toBe('const g = () => (void 0);\n');
+	});
+
+	it('replaces calls inside expressions with void 0', () => {
+		expect(removeLogs('a && console.log(1);\nconst b = [console.warn(2)];\n')).toBe(
+			'a && void 0;\nconst b = [void 0];\n'
+		);
+	});
+
+	it('inserts a semicolon when the next line would continue the previous statement', () => {
+		expect(removeLogs('let a = b\nconsole.log(1);\n[1, 2].forEach(f)\n')).toBe(
+			'let a = b\n;[1, 2].forEach(f)\n'
+		);
+		expect(removeLogs('let a = b\nconsole.log(1);\n(c || d).run()\n')).toBe(
+			'let a = b\n;(c || d).run()\n'
+		);
+	});
+
+	it('does not insert a semicolon after a terminated statement', () => {
+		expect(removeLogs('let a = b;\nconsole.log(1);\n[1, 2].forEach(f)\n')).toBe(
+			'let a = b;\n[1, 2].forEach(f)\n'
+		);
+	});
+
+	it('guards parenthesized replacements against ASI', () => {
+		expect(removeLogs('let a = b\nconsole.log(1).then(f)\n')).toBe(
+			'let a = b\n;(void 0).then(f)\n'
+		);
+	});
+});
+
+describe('LogCallAnalyzer', () => {
+	it('reports reserved names bound by an enclosing function', () => {
+		const analyzer = new LogCallAnalyzer([], ['logger']);
+		const analysis = analyzer.analyze(
+			'function g(logger) { console.log(1); }\nconsole.log(2);\n',
+			'input.js',
+			'js'
+		);
+		expect(analysis.sites.map(site => site.shadowed)).toEqual([['logger'], []]);
+	});
+
+	it('detects CommonJS files', () => {
+		const analyzer = new LogCallAnalyzer();
+		const analyze = (content: string, lang: string = 'js') =>
+			analyzer.analyze(content, `input.${lang}`, lang).commonJs;
+
+		expect(analyze("const a = require('a');\n")).toBe(true);
+		expect(analyze('module.exports = {};\n')).toBe(true);
+		expect(analyze('console.log(1);\n', 'cjs')).toBe(true);
+		expect(analyze("import a from 'a';\nconst b = require('b');\n")).toBe(false);
+		expect(analyze('function f(require) { require(1); }\n')).toBe(false);
+	});
+
+	it('places inserted requires after the last top-level require', () => {
+		const content = "'use strict';\nconst a = require('a');\nconst b = require('b').c;\nrun();\n";
+		const analysis = new LogCallAnalyzer().analyze(content, 'input.js', 'js');
+		expect(analysis.importsEnd).toBe(content.indexOf('\nrun'));
+		expect(analysis.bindings.get('b')).toBe('b');
+	});
+});
@@ -0,0 +1,509 @@
+import path from 'path';
+import { parse } from '@babel/parser';
+import traverse, { NodePath, Scope } from '@babel/traverse';
+import { CallExpression, Expression, Node, Program, V8IntrinsicIdentifier } from '@babel/types';
+import { TextEdit } from '../../shared/types';
+import { CalleePattern, matchesCalleeSegments } from './callee-patterns';
+import { isGuardTest } from './log-guard';
+import { isConsoleMethod } from './log-levels';
+
+export const AST_EXTENSIONS = ['js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts'];
+
+export type LogCallPosition = 'statement' | 'body' | 'arrow-body' | 'expression';
+
+export interface LogCallSite {
+	callee: string;
+	calleeStart: number;
+	calleeEnd: number;
+	method: string | null;
+	console: boolean;
+	start: number;
+	end: number;
+	position: LogCallPosition;
+	statementStart: number;
+	statementEnd: number;
+	parenthesized: boolean;
+	needsParens: boolean;
+	asiHazard: boolean;
+	guarded: boolean;
+	shadowed: string[];
+}
+
+export interface LogCallAnalysis {
+	sites: LogCallSite[];
+	bindings: Map<string, string | null>;
+	importsEnd: number | null;
+	bodyStart: number;
+	commonJs: boolean;
+}
+
+interface CalleeMatch {
+	method: string | null;
+	console: boolean;
+}
+
+interface ImportedBinding {
+	module: string;
+	derived: boolean;
+}
+
+export class LogCallAnalyzer {
+	private memberPatterns: string[][];
+	private importModules: Set<string>;
+	private reservedNames: string[];
+
+	constructor(callees: CalleePattern[] = [], reservedNames: string[] = []) {
+		this.reservedNames = reservedNames;
+		this.memberPatterns = callees.flatMap(callee =>
+			callee.kind === 'member' ? [callee.segments] : []
+		);
+		this.importModules = new Set(
+			callees.flatMap(callee => (callee.kind === 'import' ? [callee.module] : []))
+		);
+	}
+
+	analyze(
+		content: string,
+		filePath: string,
+		lang: string = path.extname(filePath).slice(1).toLowerCase()
+	): LogCallAnalysis {
+		const ast = this.parseCode(content, filePath, lang);
+		const analysis: LogCallAnalysis = {
+			sites: [],
+			bindings: new Map(),
+			importsEnd: null,
+			bodyStart: 0,
+			commonJs: lang === 'cjs'
+		};
+
+		traverse(ast, {
+			Program: path => {
+				for (const [name, binding] of Object.entries(path.scope.bindings)) {
+					const declaration = binding.path.parent;
+					analysis.bindings.set(
+						name,
+						binding.kind === 'module' && declaration?.type === 'ImportDeclaration'
+							? declaration.source.value
+							: binding.path.isVariableDeclarator()
+								? getRequiredModule(binding.path.node.init, path.scope)
+								: null
+					);
+				}
+
+				analysis.bodyStart = path.node.interpreter?.end || 0;
+				for (const directive of path.node.directives) {
+					analysis.bodyStart = directive.end || analysis.bodyStart;
+				}
+
+				const isModule = path.node.body.some(
+					statement =>
+						statement.type === 'ImportDeclaration' ||
+						statement.type === 'ExportNamedDeclaration' ||
+						statement.type === 'ExportDefaultDeclaration' ||
+						statement.type === 'ExportAllDeclaration'
+				);
+				if (!analysis.commonJs && lang !== 'mjs' && !isModule) {
+					analysis.commonJs = usesCommonJs(path);
+				}
+
+				for (const statement of path.node.body) {
+					if (
+						statement.type === 'ImportDeclaration' ||
+						(analysis.commonJs &&
+							statement.type === 'VariableDeclaration' &&
+							statement.declarations.some(
+								declarator => getRequiredModule(declarator.init, path.scope) !== null
+							))
+					) {
+						analysis.importsEnd = statement.end || analysis.importsEnd;
+					}
+				}
+			},
+			CallExpression: (path: NodePath<CallExpression>) => {
+				const match = this.matchCall(path);
+				if (!match) return;
+
+				analysis.sites.push(this.createSite(path, content, match));
+				path.skip();
+			}
+		});
+
+		return analysis;
+	}
+
+	private parseCode(content: string, filePath: string, lang: string): Node {
+		const isTypeScript = /^[mc]?tsx?$/.test(lang);
+		const isJSX = !isTypeScript || lang === 'tsx';
+
+		const plugins: any[] = ['objectRestSpread', 'functionBind', 'decorators-legacy'];
+
+		if (isTypeScript) {
+			plugins.push('typescript');
+		}
+
+		if (isJSX) {
+			plugins.push('jsx');
+		}
+
+		try {
+			return parse(content, {
+				sourceType: 'module',
+				allowImportExportEverywhere: true,
+				allowReturnOutsideFunction: true,
+				plugins
+			});
+		} catch (error) {
+			throw new Error(`Unable to parse ${filePath}: ${(error as Error).message}`);
+		}
+	}
+
+	private matchCall(path: NodePath<CallExpression>): CalleeMatch | null {
+		const callee = path.node.callee;
+		const segments = getCalleeSegments(callee);
+
+		if (
+			segments?.length === 2 &&
+			segments[0] === 'console' &&
+			isConsoleMethod(segments[1]) &&
+			!path.scope.hasBinding('console')
+		) {
+			return { method: segments[1], console: true };
+		}
+
+		const alias =
+			callee.type === 'Identifier' ? this.resolveConsoleAlias(path.scope, callee.name) : null;
+		if (alias) {
+			return { method: alias, console: true };
+		}
+
+		if (segments && this.memberPatterns.some(pattern => matchesCalleeSegments(segments, pattern))) {
+			return { method: segments.length > 1 ? segments[segments.length - 1] : null, console: false };
+		}
+
+		if (this.importModules.size > 0 && this.matchesImportedLogger(path)) {
+			return { method: null, console: false };
+		}
+
+		return null;
+	}
+
+	private resolveConsoleAlias(scope: Scope, name: string): string | null {
+		const binding = scope.getBinding(name);
+		if (!binding?.path.isVariableDeclarator() || binding.path.scope.hasBinding('console')) {
+			return null;
+		}
+
+		const { id, init } = binding.path.node;
+		let method: string | null = null;
+
+		if (id.type === 'Identifier' && init?.type === 'MemberExpression') {
+			const segments = getCalleeSegments(init);
+			method = segments?.length === 2 && segments[0] === 'console' ? segments[1] : null;
+		} else if (
+			id.type === 'ObjectPattern' &&
+			init?.type === 'Identifier' &&
+			init.name === 'console'
+		) {
+			for (const property of id.properties) {
+				if (
+					property.type === 'ObjectProperty' &&
+					property.value.type === 'Identifier' &&
+					property.value.name === name
+				) {
+					method = getPropertyName(property.key, property.computed);
+				}
+			}
+		}
+
+		return method && isConsoleMethod(method) && binding.constantViolations.length === 0
+			? method
+			: null;
+	}
+
+	private matchesImportedLogger(path: NodePath<CallExpression>): boolean {
+		const callee = path.node.callee;
+
+		if (callee.type === 'CallExpression' && callee.callee.type === 'Identifier') {
+			return this.resolveImportedBinding(path.scope, callee.callee.name)?.derived === false;
+		}
+
+		if (callee.type !== 'Identifier') {
+			return false;
+		}
+
+		const binding = this.resolveImportedBinding(path.scope, callee.name);
+		if (!binding) {
+			return false;
+		}
+
+		if (binding.derived) {
+			return true;
+		}
+
+		const parent = path.parentPath?.node;
+		return !(
+			parent?.type === 'VariableDeclarator' ||
+			(parent?.type === 'AssignmentExpression' && path.key === 'right') ||
+			(parent?.type === 'CallExpression' && path.key === 'callee') ||
+			(parent?.type === 'MemberExpression' && path.key === 'object')
+		);
+	}
+
+	private resolveImportedBinding(scope: Scope, name: string): ImportedBinding | null {
+		const binding = scope.getBinding(name);
+		if (!binding) {
+			return null;
+		}
+
+		const declaration = binding.path.parent;
+		if (binding.kind === 'module' && declaration?.type === 'ImportDeclaration') {
+			return declaration.importKind !== 'type' && this.importModules.has(declaration.source.value)
+				? { module: declaration.source.value, derived: false }
+				: null;
+		}
+
+		if (!binding.path.isVariableDeclarator()) {
+			return null;
+		}
+
+		const init = binding.path.node.init;
+		if (init?.type !== 'CallExpression' || init.callee.type !== 'Identifier') {
+			return null;
+		}
+
+		const argument = init.arguments[0];
+		if (init.callee.name === 'require' && !scope.hasBinding('require')) {
+			return argument?.type === 'StringLiteral' && this.importModules.has(argument.value)
+				? { module: argument.value, derived: false }
+				: null;
+		}
+
+		const factory = this.resolveImportedBinding(binding.path.scope, init.callee.name);
+		return factory && !factory.derived ? { module: factory.module, derived: true } : null;
+	}
+
+	private createSite(
+		path: NodePath<CallExpression>,
+		content: string,
+		match: CalleeMatch
+	): LogCallSite {
+		const node = path.node;
+		const parent = path.parentPath;
+		const site: LogCallSite = {
+			callee: content.slice(node.callee.start || 0, node.callee.end || 0),
+			calleeStart: node.callee.start || 0,
+			calleeEnd: node.callee.end || 0,
+			method: match.method,
+			console: match.console,
+			start: node.start || 0,
+			end: node.end || 0,
+			position: 'expression',
+			statementStart: node.start || 0,
+			statementEnd: node.end || 0,
+			parenthesized: Boolean(node.extra?.parenthesized),
+			needsParens: false,
+			asiHazard: false,
+			guarded: isInsideGuard(path, content),
+			shadowed: this.reservedNames.filter(name => {
+				const binding = path.scope.getBinding(name);
+				return binding !== undefined && binding.scope !== path.scope.getProgramParent();
+			})
+		};
+
+		if (parent?.isExpressionStatement()) {
+			site.position = parent.listKey ? 'statement' : 'body';
+			site.statementStart = parent.node.start || site.start;
+			site.statementEnd = parent.node.end || site.end;
+		} else if (parent?.isArrowFunctionExpression() && path.key === 'body') {
+			site.position = 'arrow-body';
+		} else if (parent && !site.parenthesized) {
+			const parentNode = parent.node;
+			const statement = path.getStatementParent()?.node;
+			site.statementStart = statement?.start ?? site.start;
+			site.statementEnd = statement?.end ?? site.end;
+			site.asiHazard =
+				site.statementStart === site.start && needsSemicolon(content.slice(0, site.start));
+			site.needsParens =
+				((parentNode.type === 'MemberExpression' ||
+					parentNode.type === 'OptionalMemberExpression') &&
+					path.key === 'object') ||
+				((parentNode.type === 'CallExpression' ||
+					parentNode.type === 'OptionalCallExpression' ||
+					parentNode.type === 'NewExpression') &&
+					path.key === 'callee') ||
+				(parentNode.type === 'TaggedTemplateExpression' && path.key === 'tag') ||
+				(parentNode.type === 'BinaryExpression' &&
+					parentNode.operator === '**' &&
+					path.key === 'left');
+		}
+
+		return site;
+	}
+}
+
+export function createRemovalEdit(content: string, site: LogCallSite): TextEdit {
+	switch (site.position) {
+		case 'statement':
+			return createStatementRemoval(content, site.statementStart, site.statementEnd);
+		case 'body':
+			return { start: site.statementStart, end: site.statementEnd, replacement: '{}' };
+		case 'arrow-body':
+			return {
+				start: site.start,
+				end: site.end,
+				replacement: site.parenthesized ? 'void 0' : '{}'
+			};
+		default:
+			return {
+				start: site.start,
+				end: site.end,
+				replacement: !site.needsParens ? 'void 0' : site.asiHazard ? ';(void 0)' : '(void 0)'
+			};
+	}
+}
+
+function createStatementRemoval(content: string, start: number, end: number): TextEdit {
+	const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+	const newline = content.indexOf('\n', end);
+	const lineEnd = newline === -1 ? content.length : newline;
+	const before = content.slice(lineStart, start);
+	const after = content.slice(end, lineEnd);
+
+	let edit: TextEdit;
+	if (!before.trim() && !after.trim()) {
+		edit = {
+			start: lineStart,
+			end: newline === -1 ? lineEnd : newline + 1,
+			replacement: ''
+		};
+	} else {
+		edit = { start, end: end + (after.length - after.trimStart().length), replacement: '' };
+	}
+
+	if (
+		needsSemicolon(content.slice(0, edit.start)) &&
+		/^[([`+\-/]/.test(content.slice(edit.end).trimStart())
+	) {
+		edit.replacement = ';';
+	}
+
+	return edit;
+}
+
+function getRequiredModule(init: Node | null | undefined, scope: Scope): string | null {
+	let call = init;
+	while (call?.type === 'MemberExpression') {
+		call = call.object;
+	}
+
+	if (
+		call?.type === 'CallExpression' &&
+		call.callee.type === 'Identifier' &&
+		call.callee.name === 'require' &&
+		!scope.hasBinding('require') &&
+		call.arguments[0]?.type === 'StringLiteral'
+	) {
+		return call.arguments[0].value;
+	}
+	return null;
+}
+
+function usesCommonJs(program: NodePath<Program>): boolean {
+	let found = false;
+
+	program.traverse({
+		CallExpression(path) {
+			const { callee } = path.node;
+			if (
+				callee.type === 'Identifier' &&
+				callee.name === 'require' &&
+				!path.scope.hasBinding('require')
+			) {
+				found = true;
+				path.stop();
+			}
+		},
+		MemberExpression(path) {
+			const { object, property } = path.node;
+			if (
+				(object.type === 'Identifier' &&
+					object.name === 'module' &&
+					property.type === 'Identifier' &&
+					property.name === 'exports' &&
+					!path.scope.hasBinding('module')) ||
+				(object.type === 'Identifier' &&
+					object.name === 'exports' &&
+					!path.scope.hasBinding('exports'))
+			) {
+				found = true;
+				path.stop();
+			}
+		}
+	});
+
+	return found;
+}
+
+function needsSemicolon(previous: string): boolean {
+	const trimmed = previous.trimEnd();
+	return trimmed.length > 0 && !/[;{]$/.test(trimmed);
+}
+
+function isInsideGuard(path: NodePath, content: string): boolean {
+	let child = path;
+	let parent = path.parentPath;
+
+	while (parent) {
+		const node = parent.node;
+		const test =
+			(node.type === 'IfStatement' || node.type === 'ConditionalExpression') &&
+			child.key === 'consequent'
+				? node.test
+				: node.type === 'LogicalExpression' && node.operator === '&&' && child.key === 'right'
+					? node.left
+					: null;
+
+		if (test && isGuardTest(content.slice(test.start || 0, test.end || 0))) {
+			return true;
+		}
+
+		child = parent;
+		parent = parent.parentPath;
+	}
+
+	return false;
+}
+
+function getCalleeSegments(callee: Expression | V8IntrinsicIdentifier): string[] | null {
+	if (callee.type === 'Identifier') {
+		return [callee.name];
+	}
+
+	if (callee.type === 'ThisExpression') {
+		return ['this'];
+	}
+
+	if (callee.type === 'MemberExpression') {
+		const object = getCalleeSegments(callee.object);
+		const property = getPropertyName(callee.property, callee.computed);
+		return object && property ? [...object, property] : null;
+	}
+
+	return null;
+}
+
+function getPropertyName(key: Node, computed: boolean): string | null {
+	if (key.type === 'Identifier' && !computed) {
+		return key.name;
+	}
+
+	if (key.type === 'StringLiteral') {
+		return key.value;
+	}
+
+	if (key.type === 'TemplateLiteral' && key.expressions.length === 0) {
+		return key.quasis[0].value.cooked ?? null;
+	}
+
+	return null;
+}
@@ -0,0 +1,52 @@
+import { InvalidArgumentError } from 'commander';
+
+export type CalleePattern =
+	| { kind: 'member'; pattern: string; segments: string[] }
+	| { kind: 'import'; pattern: string; module: string };
+
+const SEGMENT_PATTERN = /^(\*|[A-Za-z_$][\w$]*)$/;
+
+export function parseCalleePattern(pattern: string): CalleePattern {
+	const trimmed = pattern.trim();
+
+	if (trimmed.startsWith('import:')) {
+		const module = trimmed.slice('import:'.length).trim();
+		if (!module) {
+			throw new Error(`Invalid callee pattern "${pattern}": expected a module name after import:`);
+		}
+		return { kind: 'import', pattern: trimmed, module };
+	}
+
+	const segments = trimmed.split('.').map(segment => segment.trim());
+	if (!segments.every(segment => SEGMENT_PATTERN.test(segment)) || segments.every(s => s === '*')) {
+		throw new Error(
+			`Invalid callee pattern "${pattern}": expected an identifier or member chain such as logger.debug, *.debug or import:debug`
+		);
+	}
+
+	return { kind: 'member', pattern: trimmed, segments };
+}
+
+export function parseCalleeOption(value: string): string[] {
+	const patterns = value
+		.split(',')
+		.map(pattern => pattern.trim())
+		.filter(Boolean);
+
+	for (const pattern of patterns) {
+		try {
+			parseCalleePattern(pattern);
+		} catch (error) {
+			throw new InvalidArgumentError((error as Error).message);
+		}
+	}
+
+	return patterns;
+}
+
+export function matchesCalleeSegments(segments: string[], pattern: string[]): boolean {
+	return (
+		segments.length === pattern.length &&
+		pattern.every((segment, index) => segment === '*' || segment === segments[index])
+	);
+}
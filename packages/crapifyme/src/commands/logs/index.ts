@@ -1,31 +1,107 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
+import path from 'path';
 import {
 	Logger,
 	findFiles,
 	createFilePatterns,
+	getGitScopedFiles,
+	getChangedLineRanges,
+	GitError,
+	createReporter,
+	ReporterError,
+	loadBaseline,
+	BaselineError,
+	DEFAULT_BASELINE_FILE,
 	readFile,
 	writeFile,
 	detectVersionControl,
 	FileStats,
 	ExitCode,
-	showComplete
+	showComplete,
+	createDiffCollector,
+	DiffError,
+	formatDiff,
+	FileWatcher,
+	watchUntilInterrupted,
+	createEditFindings,
+	parseCountOption,
+	SyntaxValidator,
+	SemanticVerifier,
+	RunJournal
 } from '../../shared';
+import { parseCalleeOption } from './callee-patterns';
+import { GUARD_STYLES } from './log-guard';
+import { LOG_LEVELS } from './log-levels';
+import { parseReplaceWithOption } from './logger-replacement';
 import { LogsProcessor } from './logic';
 
 export const logsCommand = new Command('logs')
 	.description('Remove console.log statements while preserving important ones')
 	.argument('[paths...]', 'Files or directories to process', ['.'])
 	.option('-k, --keep <patterns>', 'Comma-separated patterns to preserve')
+	.option(
+		'--callee <patterns>',
+		'Comma-separated logger calls to remove besides console, ignoring the default preserve list (e.g. logger.debug,*.trace,alert,import:debug)',
+		parseCalleeOption
+	)
 	.option('-e, --extensions <ext>', 'File extensions to process', 'js,ts,jsx,tsx,vue,svelte,astro')
 	.option('-x, --exclude <patterns>', 'Glob patterns to exclude')
 	.option('--no-preserve-debug', 'Remove console.debug statements')
 	.option('--no-preserve-error', 'Remove console.error statements')
 	.option('--no-preserve-warn', 'Remove console.warn statements')
+	.addOption(
+		new Option(
+			'--min-level <level>',
+			'Keep calls at or above this level and remove the rest (overrides the default preserve list)'
+		).choices(LOG_LEVELS)
+	)
+	.option('--allow <methods>', 'Comma-separated methods to always keep (e.g. table,group)')
+	.option('--deny <methods>', 'Comma-separated methods to always remove (e.g. trace,time)')
+	.option(
+		'--ast',
+		'Parse JS/TS files and remove console calls by syntax, replacing calls in expression positions with void 0'
+	)
+	.option(
+		'--replace-with <import>',
+		`Rewrite console calls to a logger instead of removing them (e.g. "{ logger } from '@/lib/logger'")`,
+		parseReplaceWithOption
+	)
+	.addOption(
+		new Option(
+			'--guard [style]',
+			'Wrap console calls in a dev-only check instead of removing them (node: process.env.NODE_ENV, vite: import.meta.env.DEV; detected from the project when omitted)'
+		).choices(GUARD_STYLES)
+	)
+	.addOption(
+		new Option(
+			'--verify',
+			'Check that each rewritten file has the same syntax tree as the original apart from the removed calls, and leave it unchanged otherwise'
+		).conflicts(['replaceWith', 'guard'])
+	)
+	.option('--diff', 'Show a unified diff instead of writing changes')
+	.option('--diff-output <file>', 'Save the unified diff to <file> instead of writing changes')
+	.option('--watch', 'Watch files and re-process them when they change')
+	.option(
+		'--max-logs <n>',
+		'Exit with code 1 only if more than <n> console statements would be removed',
+		parseCountOption
+	)
+	.option('--baseline <file>', 'Only report findings that are not recorded in the baseline file')
+	.option(
+		'--update-baseline',
+		`Record current findings in the baseline file (default: ${DEFAULT_BASELINE_FILE})`
+	)
+	.option('--reporter <format>', 'Write findings as a report (sarif, junit)')
+	.option('--reporter-output <file>', 'Report file path (default: crapifyme-<command>.<ext>)')
+	.option(
+		'--changed-lines',
+		'Only remove items on lines changed in git (uncommitted changes unless --staged or --changed-since is given)'
+	)
 	.action(async (paths: string[], options: any, command: Command) => {
 		const globalOptions = command.parent?.opts() || {};
 		const logger = new Logger(globalOptions.verbose, globalOptions.quiet, globalOptions.json);
 
-		if (!globalOptions.force) {
+		if (!globalOptions.force && !globalOptions.check) {
 			const vcsResult = detectVersionControl();
 			if (!vcsResult.detected) {
 				logger.error(
@@ -44,6 +120,8 @@ export const logsCommand = new Command('logs')
 		}
 
 		try {
+			const reporter = createReporter(options, 'logs');
+			const baseline = await loadBaseline(options, 'logs');
 			const extensions = options.extensions.split(',').map((e: string) => e.trim());
 			const patterns = createFilePatterns(paths, extensions);
 			const excludePatterns =
@@ -57,27 +135,54 @@ export const logsCommand = new Command('logs')
 				logger.info(`Exclude patterns: ${excludePatterns.join(', ')}`);
 			}
 
-			const files = await findFiles(patterns, excludePatterns);
+			const changedLines = options.changedLines ? await getChangedLineRanges(globalOptions) : null;
+			const gitFiles = changedLines
+				? [...changedLines.keys()]
+				: await getGitScopedFiles(globalOptions);
+			if (gitFiles) {
+				logger.info(
+					`Git scope: ${gitFiles.length} changed file${gitFiles.length === 1 ? '' : 's'}`
+				);
+			}
+
+			const files = await findFiles(patterns, excludePatterns, gitFiles);
 
 			if (files.length === 0) {
 				logger.warn('No files found to process');
 				logger.info(`Searched in: ${paths.join(', ')}`);
 				logger.info(`Extensions: ${extensions.join(', ')}`);
-				process.exit(ExitCode.Success);
+				if (!options.watch || globalOptions.check) {
+					process.exit(ExitCode.Success);
+				}
 			}
 
 			logger.info(`Found ${files.length} file${files.length === 1 ? '' : 's'} to process`);
 
-			if (globalOptions.dryRun) {
-				logger.info('DRY RUN - No files will be modified');
+			const diffCollector = createDiffCollector(options.diff, options.diffOutput);
+			const previewOnly = globalOptions.dryRun || globalOptions.check || diffCollector !== null;
+
+			if (previewOnly) {
+				logger.info(
+					`${globalOptions.check ? 'CHECK MODE' : 'DRY RUN'} - No files will be modified`
+				);
 			}
 
 			const processor = new LogsProcessor({
 				keep: options.keep?.split(',').map((p: string) => p.trim()) || [],
 				preserveDebug: options.preserveDebug,
 				preserveError: options.preserveError,
-				preserveWarn: options.preserveWarn
+				preserveWarn: options.preserveWarn,
+				minLevel: options.minLevel,
+				allow: options.allow?.split(',').map((m: string) => m.trim()),
+				deny: options.deny?.split(',').map((m: string) => m.trim()),
+				ast: options.ast,
+				callees: options.callee,
+				replaceWith: options.replaceWith,
+				guard: options.guard
 			});
+			const validator = new SyntaxValidator();
+			const journal = previewOnly ? null : new RunJournal('logs');
+			const verifier = options.verify ? new SemanticVerifier() : null;
 
 			const stats: FileStats = {
 				filesProcessed: 0,
@@ -86,26 +191,85 @@ export const logsCommand = new Command('logs')
 				errors: []
 			};
 
-			for (const file of files) {
+			let itemsReplaced = 0;
+			let itemsGuarded = 0;
+			let newFindings = 0;
+			let watcher: FileWatcher | null = null;
+
+			const processFile = async (file: string) => {
 				try {
 					const content = await readFile(file);
-					const result = processor.processFile(content);
+					const result = processor.processFile(
+						content,
+						changedLines ? changedLines.get(path.resolve(file)) || [] : undefined,
+						{ source: file }
+					);
+					validator.validate(file, content, result.content);
+					verifier?.verify(
+						file,
+						content,
+						result.content,
+						result.calls.filter(call => call.action === 'removed')
+					);
 
-					if (result.modified && !globalOptions.dryRun) {
-						await writeFile(file, result.content);
+					if (result.modified && !previewOnly) {
+						watcher?.markWritten(file, result.content);
+						await writeFile(file, result.content, journal);
+					}
+
+					const newCalls = result.calls.filter(
+						call =>
+							!baseline ||
+							baseline.isNew({
+								file,
+								ruleId: 'logs/console',
+								context: content.slice(call.start, call.end)
+							})
+					);
+					baseline?.addFile(file);
+					newFindings += baseline
+						? newCalls.length
+						: result.removed + result.replaced + result.guarded;
+
+					if (reporter) {
+						reporter.addFile(file);
+						for (const action of ['removed', 'replaced', 'guarded'] as const) {
+							for (const finding of createEditFindings(
+								file,
+								content,
+								newCalls.filter(call => call.action === action),
+								{ id: 'logs/console', description: 'Console statement' },
+								text => `Console statement ${previewOnly ? 'would be' : 'was'} ${action}: ${text}`
+							)) {
+								reporter.addFinding(finding);
+							}
+						}
 					}
 
 					stats.filesProcessed++;
 					stats.itemsRemoved += result.removed;
 					stats.itemsPreserved += result.preserved;
+					itemsReplaced += result.replaced;
+					itemsGuarded += result.guarded;
 
 					if (result.modified) {
 						logger.success(`${file}`);
+						if (options.replaceWith) {
+							console.log(`  ┣ Console logs replaced: ${result.replaced}`);
+						}
+						if (options.guard) {
+							console.log(`  ┣ Console logs guarded: ${result.guarded}`);
+						}
 						console.log(`  ┣ Console logs removed: ${result.removed}`);
 						console.log(`  ┣ Console logs preserved: ${result.preserved}`);
-						console.log(
-							`  ┗ Status: ${globalOptions.dryRun ? 'DRY RUN - would be modified' : 'Modified'}`
-						);
+						console.log(`  ┗ Status: ${previewOnly ? 'DRY RUN - would be modified' : 'Modified'}`);
+
+						if (diffCollector) {
+							const fileDiff = diffCollector.add(file, content, result.content);
+							if (!globalOptions.json && !diffCollector.writesToFile && fileDiff.patch) {
+								console.log(formatDiff(fileDiff));
+							}
+						}
 					} else if (globalOptions.verbose) {
 						logger.info(`${file} - No console.log statements found`);
 					}
@@ -113,41 +277,124 @@ export const logsCommand = new Command('logs')
 					stats.errors.push({ file, error: (error as Error).message });
 					logger.error(`Failed to process ${file}`, error as Error);
 				}
+			};
+
+			for (const file of files) {
+				await processFile(file);
+			}
+
+			const patchPath = diffCollector ? await diffCollector.save(files) : null;
+			const reportPath = reporter ? await reporter.save() : null;
+			if (baseline?.updating) {
+				await baseline.save();
 			}
 
+			const limitExceeded =
+				options.maxLogs !== undefined ? newFindings > options.maxLogs : newFindings > 0;
+
 			if (globalOptions.json) {
-				logger.json(stats);
+				const summary = {
+					...stats,
+					...(options.replaceWith ? { itemsReplaced } : {}),
+					...(options.guard ? { itemsGuarded } : {})
+				};
+				logger.json(diffCollector ? { ...summary, diffs: diffCollector.getDiffs() } : summary);
 			} else {
 				showComplete();
 
 				if (stats.errors.length > 0) {
+					const parsingErrors = validator.getErrors().length;
 					logger.error(
-						`Processing completed with ${stats.errors.length} error${stats.errors.length === 1 ? '' : 's'}`
+						`Processing completed with ${stats.errors.length} error${stats.errors.length === 1 ? '' : 's'}` +
+							(parsingErrors > 0
+								? ` (${parsingErrors} left unchanged because the output no longer parsed)`
+								: '')
 					);
 				} else {
 					logger.success('Processing completed successfully');
 				}
 
-				const filesModified = stats.itemsRemoved > 0 ? 'with changes' : 'no changes needed';
+				const filesModified =
+					stats.itemsRemoved + itemsReplaced + itemsGuarded > 0
+						? 'with changes'
+						: 'no changes needed';
 				logger.info(`Files processed: ${stats.filesProcessed} (${filesModified})`);
+				if (options.replaceWith) {
+					logger.info(`Console logs replaced: ${itemsReplaced}`);
+				}
+				if (options.guard) {
+					logger.info(`Console logs guarded: ${itemsGuarded}`);
+				}
 				logger.info(`Console logs removed: ${stats.itemsRemoved}`);
 				logger.info(`Console logs preserved: ${stats.itemsPreserved}`);
 
-				if (globalOptions.dryRun && stats.itemsRemoved > 0) {
-					logger.warn('DRY RUN MODE - No files were actually modified');
-					logger.info('Remove --dry-run to apply changes');
+				if (patchPath) {
+					logger.info(`Patch written to ${patchPath}`);
+				}
+
+				if (reportPath) {
+					logger.info(`Report written to ${reportPath}`);
+				}
+
+				if (baseline?.updating) {
+					logger.info(
+						`Baseline updated: ${baseline.size} finding${baseline.size === 1 ? '' : 's'} recorded in ${baseline.filePath}`
+					);
+				} else if (baseline && baseline.suppressed > 0) {
+					logger.info(
+						`Baseline: ${baseline.suppressed} known finding${baseline.suppressed === 1 ? '' : 's'} suppressed`
+					);
+				}
+
+				if (
+					previewOnly &&
+					!globalOptions.check &&
+					stats.itemsRemoved + itemsReplaced + itemsGuarded > 0
+				) {
+					if (globalOptions.dryRun) {
+						logger.warn('DRY RUN MODE - No files were actually modified');
+						logger.info('Remove --dry-run to apply changes');
+					} else {
+						logger.info(
+							`No files were modified; remove ${options.diffOutput ? '--diff-output' : '--diff'} to apply changes`
+						);
+					}
+				}
+
+				if (options.maxLogs !== undefined && limitExceeded) {
+					logger.error(
+						`${newFindings} console statement${newFindings === 1 ? '' : 's'} found, --max-logs allows ${options.maxLogs}`
+					);
 				}
 			}
 
+			if (options.watch && !globalOptions.check) {
+				watcher = new FileWatcher(
+					{ paths, extensions, exclude: excludePatterns, logger },
+					processFile
+				);
+				await watcher.start();
+				watchUntilInterrupted(watcher, logger);
+				return;
+			}
+
 			const exitCode =
 				stats.errors.length > 0
 					? ExitCode.Error
-					: stats.itemsRemoved > 0
+					: limitExceeded
 						? ExitCode.IssuesFound
 						: ExitCode.Success;
 			process.exit(exitCode);
 		} catch (error) {
-			logger.error('Fatal error', error as Error);
+			logger.error(
+				error instanceof GitError ||
+					error instanceof ReporterError ||
+					error instanceof BaselineError ||
+					error instanceof DiffError
+					? error.message
+					: 'Fatal error',
+				error as Error
+			);
 			process.exit(ExitCode.Error);
 		}
 	});
@@ -0,0 +1,127 @@
+import { FrameworkDetector } from '../imports/framework-detector';
+import { TextEdit } from '../../shared/types';
+import { LogCallSite } from './ast-analyzer';
+
+export const GUARD_STYLES = ['node', 'vite'] as const;
+
+export type GuardStyle = (typeof GUARD_STYLES)[number];
+
+const GUARD_EXPRESSIONS: Record<GuardStyle, string> = {
+	node: "process.env.NODE_ENV !== 'production'",
+	vite: 'import.meta.env.DEV'
+};
+
+const VITE_FRAMEWORKS = ['Vite', 'Svelte', 'Nuxt'];
+
+const GUARD_TEST_SOURCE = [
+	String.raw`process\.env\.NODE_ENV\s*!==?\s*['"]production['"]`,
+	String.raw`['"]production['"]\s*!==?\s*process\.env\.NODE_ENV`,
+	String.raw`process\.env\.NODE_ENV\s*===?\s*['"]development['"]`,
+	String.raw`import\.meta\.env\.DEV\b`,
+	String.raw`!\s*import\.meta\.env\.PROD\b`,
+	String.raw`import\.meta\.dev\b`
+].join('|');
+
+const GUARD_TEST_PATTERN = new RegExp(`^\\s*\\(?\\s*(?:${GUARD_TEST_SOURCE})\\s*\\)?\\s*$`);
+
+const GUARDED_PREFIX_PATTERN = new RegExp(
+	`(?:\\bif\\s*\\(\\s*(?:${GUARD_TEST_SOURCE})\\s*\\)\\s*\\{?|(?:${GUARD_TEST_SOURCE})\\s*(?:&&|\\?))\\s*\\(?\\s*$`
+);
+
+export function isGuardTest(test: string): boolean {
+	return GUARD_TEST_PATTERN.test(test);
+}
+
+export function detectGuardStyle(projectRoot: string = process.cwd()): GuardStyle {
+	const framework = new FrameworkDetector(projectRoot).detectFramework();
+	return framework && VITE_FRAMEWORKS.includes(framework.name) ? 'vite' : 'node';
+}
+
+export class LogGuard {
+	readonly style: GuardStyle;
+
+	constructor(style: GuardStyle) {
+		this.style = style;
+	}
+
+	isGuarded(content: string, position: number): boolean {
+		return GUARDED_PREFIX_PATTERN.test(content.slice(Math.max(0, position - 200), position));
+	}
+
+	createSiteEdit(
+		content: string,
+		site: LogCallSite,
+		filePath: string,
+		commonJs: boolean = false
+	): TextEdit {
+		const guard = this.getExpression(filePath, commonJs);
+		const call = content.slice(site.start, site.end);
+
+		switch (site.position) {
+			case 'statement':
+				return {
+					start: site.statementStart,
+					end: site.statementEnd,
+					replacement: `if (${guard}) ${content.slice(site.statementStart, site.statementEnd)}`
+				};
+			case 'body':
+				return {
+					start: site.statementStart,
+					end: site.statementEnd,
+					replacement: `{ if (${guard}) ${content.slice(site.statementStart, site.statementEnd)} }`
+				};
+			case 'arrow-body':
+				return {
+					start: site.start,
+					end: site.end,
+					replacement: site.parenthesized
+						? `${guard} ? ${call} : void 0`
+						: `{ if (${guard}) ${call}; }`
+				};
+			default: {
+				const conditional = `${guard} ? ${call} : void 0`;
+				const prefix = site.asiHazard ? ';' : '';
+				return {
+					start: site.start,
+					end: site.end,
+					replacement: site.parenthesized ? conditional : `${prefix}(${conditional})`
+				};
+			}
+		}
+	}
+
+	createTokenEdit(content: string, start: number, end: number, filePath: string): TextEdit {
+		const guard = this.getExpression(filePath);
+		const statement = content.slice(start, end);
+		const before = content.slice(0, start);
+		const previous = before.trimEnd();
+		const call = statement.replace(/;$/, '');
+		const semicolon = statement.endsWith(';') ? ';' : '';
+
+		if (previous.endsWith('=>')) {
+			return { start, end, replacement: `{ if (${guard}) ${call}; }${semicolon}` };
+		}
+
+		if (/(\)|\belse|\bdo)$/.test(previous)) {
+			return { start, end, replacement: `{ if (${guard}) ${statement} }` };
+		}
+
+		if (
+			!previous ||
+			/[;{}]$/.test(previous) ||
+			/<script\b[^>]*>$/i.test(previous) ||
+			(/\n\s*$/.test(before) && /[\w$\]'"`]$/.test(previous))
+		) {
+			return { start, end, replacement: `if (${guard}) ${statement}` };
+		}
+
+		return { start, end, replacement: `(${guard} ? ${call} : void 0)${semicolon}` };
+	}
+
+	private getExpression(filePath: string, commonJs: boolean = false): string {
+		if (commonJs || /\.c[jt]s$/.test(filePath)) {
+			return GUARD_EXPRESSIONS.node;
+		}
+		return GUARD_EXPRESSIONS[/\.astro$/.test(filePath) ? 'vite' : this.style];
+	}
+}
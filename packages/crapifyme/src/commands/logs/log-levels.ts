@@ -0,0 +1,115 @@
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const CONSOLE_METHOD_LEVELS: Record<string, LogLevel> = {
+	trace: 'trace',
+	debug: 'debug',
+	dir: 'debug',
+	dirxml: 'debug',
+	table: 'debug',
+	count: 'debug',
+	countReset: 'debug',
+	group: 'debug',
+	groupCollapsed: 'debug',
+	groupEnd: 'debug',
+	time: 'debug',
+	timeEnd: 'debug',
+	timeLog: 'debug',
+	timeStamp: 'debug',
+	profile: 'debug',
+	profileEnd: 'debug',
+	log: 'info',
+	info: 'info',
+	clear: 'info',
+	warn: 'warn',
+	error: 'error',
+	assert: 'error'
+};
+
+const LOGGER_METHOD_LEVELS: Record<string, LogLevel> = {
+	silly: 'trace',
+	verbose: 'debug',
+	notice: 'info',
+	warning: 'warn',
+	fatal: 'error',
+	critical: 'error'
+};
+
+const LEGACY_PRESERVED_METHODS = ['assert', 'trace', 'time', 'timeEnd'];
+
+export interface LogPolicyOptions {
+	minLevel?: LogLevel;
+	allow?: string[];
+	deny?: string[];
+	preserveDebug?: boolean;
+	preserveError?: boolean;
+	preserveWarn?: boolean;
+}
+
+export function isConsoleMethod(method: string): boolean {
+	return Object.prototype.hasOwnProperty.call(CONSOLE_METHOD_LEVELS, method);
+}
+
+export function getMethodLevel(method: string): LogLevel | null {
+	if (isConsoleMethod(method)) {
+		return CONSOLE_METHOD_LEVELS[method];
+	}
+	return Object.prototype.hasOwnProperty.call(LOGGER_METHOD_LEVELS, method)
+		? LOGGER_METHOD_LEVELS[method]
+		: null;
+}
+
+export class LogPolicy {
+	private minLevel?: LogLevel;
+	private allow: Set<string>;
+	private deny: Set<string>;
+	private legacyPreserved: Set<string>;
+
+	constructor(options: LogPolicyOptions = {}) {
+		if (options.minLevel && !LOG_LEVELS.includes(options.minLevel)) {
+			throw new Error(
+				`Invalid log level "${options.minLevel}". Expected one of: ${LOG_LEVELS.join(', ')}`
+			);
+		}
+
+		this.minLevel = options.minLevel;
+		this.allow = new Set(options.allow || []);
+		this.deny = new Set(options.deny || []);
+		this.legacyPreserved = new Set(LEGACY_PRESERVED_METHODS);
+
+		const flags: Array<[boolean | undefined, string]> = [
+			[options.preserveDebug, 'debug'],
+			[options.preserveError, 'error'],
+			[options.preserveWarn, 'warn']
+		];
+		for (const [preserve, method] of flags) {
+			if (preserve === false) {
+				this.deny.add(method);
+			} else {
+				this.legacyPreserved.add(method);
+			}
+		}
+	}
+
+	shouldPreserve(method: string | null, isConsole: boolean, useDefaults = true): boolean {
+		if (!method || this.deny.has(method)) {
+			return false;
+		}
+
+		if (this.allow.has(method)) {
+			return true;
+		}
+
+		if (this.minLevel) {
+			const level = getMethodLevel(method);
+			return level !== null && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.minLevel);
+		}
+
+		return (
+			useDefaults &&
+			this.legacyPreserved.has(method) &&
+			(isConsole || !LEGACY_PRESERVED_METHODS.includes(method))
+		);
+	}
+}
@@ -0,0 +1,115 @@
+import { InvalidArgumentError } from 'commander';
+import { ImportTransformer } from '../imports/import-transformer';
+import { ImportSpecifier, ImportStatement } from '../imports/types';
+import { TextEdit } from '../../shared/types';
+import { LogCallAnalysis } from './ast-analyzer';
+import { LogLevel } from './log-levels';
+
+export const REPLACEMENT_LEVELS: Record<string, LogLevel> = {
+	trace: 'trace',
+	debug: 'debug',
+	log: 'info',
+	info: 'info',
+	warn: 'warn',
+	error: 'error'
+};
+
+const IMPORT_CLAUSE_PATTERN =
+	/^(?:\{\s*([A-Za-z_$][\w$]*)(?:\s+as\s+([A-Za-z_$][\w$]*))?\s*\}|\*\s*as\s+([A-Za-z_$][\w$]*)|([A-Za-z_$][\w$]*))\s+from\s+(['"]?)([^'"\s]+)\5$/;
+
+export function parseLoggerImport(value: string): ImportStatement {
+	const match = value.trim().match(IMPORT_CLAUSE_PATTERN);
+	if (!match) {
+		throw new Error(
+			`Invalid logger import "${value}": expected "logger from 'module'", "{ logger } from 'module'" or "* as logger from 'module'"`
+		);
+	}
+
+	const [, named, alias, namespace, defaultName, , source] = match;
+	const specifier: ImportSpecifier = named
+		? { type: 'named', imported: named, local: alias || named }
+		: namespace
+			? { type: 'namespace', local: namespace }
+			: { type: 'default', local: defaultName };
+
+	return {
+		source,
+		specifiers: [specifier],
+		importKind: 'value',
+		startPos: 0,
+		endPos: 0
+	};
+}
+
+export function parseReplaceWithOption(value: string): string {
+	try {
+		parseLoggerImport(value);
+	} catch (error) {
+		throw new InvalidArgumentError((error as Error).message);
+	}
+	return value;
+}
+
+export class LoggerReplacer {
+	private readonly statement: ImportStatement;
+	readonly local: string;
+	private readonly transformer = new ImportTransformer();
+
+	constructor(importClause: string) {
+		this.statement = parseLoggerImport(importClause);
+		this.local = this.statement.specifiers[0].local;
+	}
+
+	canReplace(method: string | null): boolean {
+		return method !== null && Object.prototype.hasOwnProperty.call(REPLACEMENT_LEVELS, method);
+	}
+
+	createCalleeEdit(start: number, end: number, method: string): TextEdit {
+		return { start, end, replacement: `${this.local}.${REPLACEMENT_LEVELS[method]}` };
+	}
+
+	createImportEdit(content: string, analysis: LogCallAnalysis, filePath: string): TextEdit | null {
+		const existing = analysis.bindings.get(this.local);
+		if (existing === this.statement.source) {
+			return null;
+		}
+		if (analysis.bindings.has(this.local)) {
+			throw new Error(
+				`Cannot import logger "${this.local}" into ${filePath}: the name is already declared`
+			);
+		}
+
+		const importLine = analysis.commonJs
+			? this.renderRequire()
+			: this.transformer.renderImport(this.statement);
+		if (analysis.importsEnd !== null) {
+			return {
+				start: analysis.importsEnd,
+				end: analysis.importsEnd,
+				replacement: `\n${importLine}`
+			};
+		}
+
+		const { bodyStart } = analysis;
+		if (bodyStart > 0 && content[bodyStart - 1] !== '\n') {
+			return { start: bodyStart, end: bodyStart, replacement: `\n${importLine}` };
+		}
+
+		return {
+			start: bodyStart,
+			end: bodyStart,
+			replacement: bodyStart < content.length ? `${importLine}\n` : importLine
+		};
+	}
+
+	private renderRequire(): string {
+		const specifier = this.statement.specifiers[0];
+		const binding =
+			specifier.type !== 'named'
+				? specifier.local
+				: specifier.imported === specifier.local
+					? `{ ${specifier.local} }`
+					: `{ ${specifier.imported}: ${specifier.local} }`;
+		return `const ${binding} = require('${this.statement.source}');`;
+	}
+}
@@ -0,0 +1,20 @@
+import { LogsProcessor } from './logic';
+
+describe('LogsProcessor', () => {
+	const process = (content: string, options: ConstructorParameters<typeof LogsProcessor>[0]) =>
+		new LogsProcessor(options).processFile(content, undefined, { source: 'a.js' }).content;
+
+	it('removes explicit callee matches that the default preserve list would keep', () => {
+		const content = 'logger.debug(1);\nother.debug(2);\nconsole.debug(3);\n';
+
+		expect(process(content, { callees: ['*.debug'] })).toBe('console.debug(3);\n');
+	});
+
+	it('still applies --allow to callee matches', () => {
+		const content = 'logger.debug(1);\nlogger.trace(2);\n';
+
+		expect(process(content, { callees: ['logger.*'], allow: ['debug'] })).toBe(
+			'logger.debug(1);\n'
+		);
+	});
+});
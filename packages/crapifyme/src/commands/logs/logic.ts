@@ -1,86 +1,268 @@
+import path from 'path';
+import { IgnoreDirectives } from '../../shared/directives';
+import { LineRangeFilter } from '../../shared/line-ranges';
+import { SfcBlock, isSfcFile, isolateSfcBlock, splitSfc } from '../../shared/sfc';
+import { SourceMapInput, applyTextEdits, createSourceMap } from '../../shared/source-map';
 import { SimpleTokenizer } from '../../shared/tokenizer';
-import { ProcessResult } from '../../shared/types';
+import { LineRange, ProcessResult, TextEdit } from '../../shared/types';
+import { AST_EXTENSIONS, LogCallAnalyzer, createRemovalEdit } from './ast-analyzer';
+import { CalleePattern, parseCalleePattern } from './callee-patterns';
+import { GuardStyle, LogGuard, detectGuardStyle } from './log-guard';
+import { LogPolicy, LogPolicyOptions, isConsoleMethod } from './log-levels';
+import { LoggerReplacer } from './logger-replacement';
 
-export interface LogsOptions {
+const CONSOLE_METHOD_PATTERN = /^console\s*(?:\.\s*([\w$]+)|\[\s*(['"])([\w$]+)\2\s*\])/;
+
+export interface LogsOptions extends LogPolicyOptions {
 	keep?: string[];
-	preserveDebug?: boolean;
-	preserveError?: boolean;
-	preserveWarn?: boolean;
+	sourceMap?: boolean;
+	ast?: boolean;
+	callees?: string[];
+	replaceWith?: string;
+	guard?: boolean | GuardStyle;
+}
+
+export interface LogCallChange extends TextEdit {
+	action: 'removed' | 'replaced' | 'guarded';
+}
+
+export interface LogsProcessResult extends ProcessResult {
+	replaced: number;
+	guarded: number;
+	calls: LogCallChange[];
 }
 
 export class LogsProcessor {
 	private keepPatterns: string[];
-	private preserveDebug: boolean;
-	private preserveError: boolean;
-	private preserveWarn: boolean;
+	private policy: LogPolicy;
+	private sourceMap: boolean;
+	private ast: boolean;
+	private callees: CalleePattern[];
+	private replacer: LoggerReplacer | null;
+	private guard: LogGuard | null;
 
 	constructor(options: LogsOptions = {}) {
 		this.keepPatterns = options.keep || [];
-		this.preserveDebug = options.preserveDebug !== false;
-		this.preserveError = options.preserveError !== false;
-		this.preserveWarn = options.preserveWarn !== false;
+		this.policy = new LogPolicy(options);
+		this.sourceMap = options.sourceMap === true;
+		this.ast = options.ast === true;
+		this.callees = (options.callees || []).map(parseCalleePattern);
+		this.replacer = options.replaceWith ? new LoggerReplacer(options.replaceWith) : null;
+		this.guard = options.guard
+			? new LogGuard(options.guard === true ? detectGuardStyle() : options.guard)
+			: null;
 	}
 
-	processFile(content: string): ProcessResult {
+	processFile(
+		content: string,
+		lineRanges?: LineRange[],
+		sourceMapInput: SourceMapInput = {}
+	): LogsProcessResult {
+		const source = sourceMapInput.source || 'input.js';
+		const blocks = getScriptBlocks(content, source);
+		const astSupported = blocks.every(block => AST_EXTENSIONS.includes(block.lang));
+		if ((this.ast || this.callees.length > 0 || this.replacer || this.guard) && astSupported) {
+			return this.processWithAst(content, lineRanges, { ...sourceMapInput, source }, blocks);
+		}
+
+		if (this.replacer) {
+			return {
+				content,
+				modified: false,
+				removed: 0,
+				preserved: 0,
+				replaced: 0,
+				guarded: 0,
+				calls: []
+			};
+		}
+
 		const tokenizer = new SimpleTokenizer();
-		const tokens = tokenizer.tokenize(content);
+		const tokens = blocks.flatMap(block => tokenizer.tokenize(isolateSfcBlock(content, block)));
+		const lineFilter = lineRanges ? new LineRangeFilter(content, lineRanges) : null;
+		const directives = new IgnoreDirectives(content, 'logs');
 
-		const result: string[] = [];
+		const edits: TextEdit[] = [];
+		const calls: LogCallChange[] = [];
 		let removed = 0;
 		let preserved = 0;
+		let guarded = 0;
 
 		for (const token of tokens) {
-			if (token.type === 'console-log') {
-				if (this.shouldPreserveLog(token.value)) {
-					result.push(token.value);
-					preserved++;
-				} else {
-					removed++;
-				}
+			const method = token.type === 'console-log' ? getConsoleMethod(token.value) : null;
+			if (!method || (lineFilter && !lineFilter.contains(content, token.startPos, token.endPos))) {
+				continue;
+			}
+
+			if (
+				directives.isIgnored(token.startPos) ||
+				this.shouldPreserveLog(token.value, method, true) ||
+				this.guard?.isGuarded(content, token.startPos)
+			) {
+				preserved++;
+			} else if (this.guard) {
+				const edit = this.guard.createTokenEdit(content, token.startPos, token.endPos, source);
+				edits.push(edit);
+				calls.push({ ...edit, action: 'guarded' });
+				guarded++;
 			} else {
-				result.push(token.value);
+				edits.push({ start: token.startPos, end: token.endPos, replacement: '' });
+				calls.push({
+					start: token.startPos,
+					end: token.endPos,
+					replacement: '',
+					action: 'removed'
+				});
+				removed++;
 			}
 		}
 
-		const processedContent = result.join('');
+		const processedContent = applyTextEdits(content, edits);
 
 		return {
 			content: processedContent,
 			modified: content !== processedContent,
 			removed,
-			preserved
+			preserved,
+			replaced: 0,
+			guarded,
+			edits,
+			calls,
+			map: this.sourceMap
+				? createSourceMap(content, edits, { ...sourceMapInput, source })
+				: undefined
 		};
 	}
 
-	private shouldPreserveLog(logStatement: string): boolean {
-		const lowerLog = logStatement.toLowerCase();
+	private processWithAst(
+		content: string,
+		lineRanges: LineRange[] | undefined,
+		sourceMapInput: SourceMapInput & { source: string },
+		blocks: SfcBlock[]
+	): LogsProcessResult {
+		const analyzer = new LogCallAnalyzer(this.callees, this.replacer ? [this.replacer.local] : []);
+		const lineFilter = lineRanges ? new LineRangeFilter(content, lineRanges) : null;
+		const directives = new IgnoreDirectives(content, 'logs');
 
-		for (const pattern of this.keepPatterns) {
-			if (lowerLog.includes(pattern.toLowerCase())) {
-				return true;
-			}
-		}
+		const edits: TextEdit[] = [];
+		const calls: LogCallChange[] = [];
+		let removed = 0;
+		let preserved = 0;
+		let replaced = 0;
+		let guarded = 0;
 
-		if (this.preserveError && lowerLog.includes('console.error')) {
-			return true;
-		}
+		for (const block of blocks) {
+			const analysis = analyzer.analyze(
+				isolateSfcBlock(content, block),
+				sourceMapInput.source,
+				block.lang
+			);
+			const replacedBefore = replaced;
 
-		// Preserve console.warn by default
-		if (this.preserveWarn && lowerLog.includes('console.warn')) {
-			return true;
-		}
+			for (const site of analysis.sites) {
+				if (lineFilter && !lineFilter.contains(content, site.start, site.end)) {
+					continue;
+				}
 
-		if (this.preserveDebug && lowerLog.includes('console.debug')) {
-			return true;
-		}
+				const text = content.slice(site.start, site.end);
+				if (
+					directives.isIgnored(site.start) ||
+					this.matchesKeepPattern(text) ||
+					(this.guard && site.guarded)
+				) {
+					preserved++;
+				} else if (
+					this.replacer &&
+					site.console &&
+					site.method &&
+					this.replacer.canReplace(site.method) &&
+					!this.policy.shouldPreserve(site.method, true, false)
+				) {
+					if (site.shadowed.includes(this.replacer.local)) {
+						preserved++;
+						continue;
+					}
+					const edit = this.replacer.createCalleeEdit(
+						site.calleeStart,
+						site.calleeEnd,
+						site.method
+					);
+					edits.push(edit);
+					calls.push({ ...edit, start: site.start, end: site.end, action: 'replaced' });
+					replaced++;
+				} else if (this.policy.shouldPreserve(site.method, site.console, site.console)) {
+					preserved++;
+				} else if (this.guard) {
+					const edit = this.guard.createSiteEdit(
+						content,
+						site,
+						sourceMapInput.source,
+						analysis.commonJs
+					);
+					edits.push(edit);
+					calls.push({ ...edit, start: site.start, end: site.end, action: 'guarded' });
+					guarded++;
+				} else {
+					edits.push(createRemovalEdit(content, site));
+					calls.push({ start: site.start, end: site.end, replacement: '', action: 'removed' });
+					removed++;
+				}
+			}
 
-		const importantMethods = ['console.assert', 'console.trace', 'console.time', 'console.timeEnd'];
-		for (const method of importantMethods) {
-			if (lowerLog.includes(method)) {
-				return true;
+			if (this.replacer && replaced > replacedBefore) {
+				const importEdit = this.replacer.createImportEdit(
+					content,
+					{ ...analysis, bodyStart: Math.max(analysis.bodyStart, block.start) },
+					sourceMapInput.source
+				);
+				if (importEdit) {
+					edits.push(importEdit);
+				}
 			}
 		}
 
-		return false;
+		const processedContent = applyTextEdits(content, edits);
+
+		return {
+			content: processedContent,
+			modified: content !== processedContent,
+			removed,
+			preserved,
+			replaced,
+			guarded,
+			edits,
+			calls,
+			map: this.sourceMap ? createSourceMap(content, edits, sourceMapInput) : undefined
+		};
+	}
+
+	private matchesKeepPattern(logStatement: string): boolean {
+		const lowerLog = logStatement.toLowerCase();
+		return this.keepPatterns.some(pattern => lowerLog.includes(pattern.toLowerCase()));
+	}
+
+	private shouldPreserveLog(
+		logStatement: string,
+		method: string | null,
+		isConsole: boolean
+	): boolean {
+		return this.matchesKeepPattern(logStatement) || this.policy.shouldPreserve(method, isConsole);
 	}
 }
+
+function getScriptBlocks(content: string, source: string): SfcBlock[] {
+	if (!isSfcFile(source)) {
+		const lang = path.extname(source).slice(1).toLowerCase();
+		return [{ type: 'script', lang, start: 0, end: content.length }];
+	}
+
+	return splitSfc(content, source).filter(
+		block => block.type === 'script' || block.type === 'frontmatter'
+	);
+}
+
+function getConsoleMethod(logStatement: string): string | null {
+	const match = logStatement.match(CONSOLE_METHOD_PATTERN);
+	const method = match ? match[1] || match[3] : null;
+	return method && isConsoleMethod(method) ? method : null;
+}
@@ -1,6 +1,12 @@
 import { Command } from 'commander';
 import path from 'path';
-import { Logger, ExitCode, showComplete } from '../../shared';
+import {
+	Logger,
+	ExitCode,
+	showComplete,
+	watchUntilInterrupted,
+	parsePercentOption
+} from '../../shared';
 import { SvgProcessor } from './logic';
 import { SvgOptions, SvgStats, SVG_PRESETS } from './types';
 
@@ -35,6 +41,11 @@ export const svgCommand = new Command('svg')
 	.option('--size-info', 'Show detailed size analysis and compression ratios (default: true)')
 	.option('--no-size-info', 'Hide size analysis')
 	.option('--report <format>', 'Export report (json, csv)')
+	.option(
+		'--min-savings <percent>',
+		'Exit with code 1 if any SVG can shrink by at least <percent>%',
+		parsePercentOption
+	)
 	.option('--inline-styles', 'Convert style attributes to inline styles')
 	.option('--remove-viewbox', 'Remove viewBox when not needed')
 	.option('--sort-attrs', 'Sort attributes alphabetically')
@@ -79,6 +90,7 @@ Output Modes:
 
 Safety Features:
   --dry-run     Preview changes without modifying files (global option)
+  --check       Never write; fail when files can still be optimized (global option)
   --force       Bypass version control requirement and confirmations (global option)
   --backup      Automatic backup creation before optimization
   --validate    Input/output validation to ensure SVG integrity
@@ -100,6 +112,7 @@ Advanced Configuration:
 Integration Features:
   --watch             Continuous optimization during development
   --report            Export detailed reports (json, csv formats)
+  --min-savings       Fail CI only when an SVG can shrink by at least this percentage
   --config            Load custom SVGO configuration files
   --glob              Advanced file pattern matching
 
@@ -127,7 +140,7 @@ async function handleSvgOptimization(
 	try {
 		const mergedOptions: SvgOptions = {
 			...options,
-			dryRun: globalOptions.dryRun || options.dryRun,
+			dryRun: globalOptions.dryRun || globalOptions.check || options.dryRun,
 			force: globalOptions.force || options.force,
 			verbose: globalOptions.verbose || options.verbose,
 			quiet: globalOptions.quiet || options.quiet,
@@ -207,10 +220,53 @@ async function handleSvgOptimization(
 				await displayResults(result, mergedOptions, logger);
 			}
 
+			const minSavings =
+				options.minSavings !== undefined ? options.minSavings : globalOptions.check ? 0 : undefined;
+			const compressibleFiles =
+				minSavings !== undefined
+					? result.results.filter(
+							fileResult =>
+								fileResult.bytesSaved > 0 &&
+								(fileResult.bytesSaved / fileResult.originalSize) * 100 >= minSavings
+						)
+					: [];
+
+			if (compressibleFiles.length > 0 && !mergedOptions.json) {
+				const fileCount = `${compressibleFiles.length} SVG file${compressibleFiles.length === 1 ? '' : 's'}`;
+				logger.error(
+					minSavings
+						? `${fileCount} can be reduced by at least ${minSavings}%`
+						: `${fileCount} can still be optimized`
+				);
+			}
+
+			if (mergedOptions.watch && !globalOptions.check) {
+				const watcher = await processor.watchSvgFiles(
+					targetPath,
+					{ ...mergedOptions, parallel: false },
+					(file, fileResult, error) => {
+						if (error) {
+							logger.error(error.message);
+						} else if (fileResult) {
+							logger.success(`${path.basename(file)}`);
+							if (mergedOptions.sizeInfo !== false && !mergedOptions.quiet) {
+								console.log(
+									`  ┗ ${formatBytes(fileResult.originalSize)} → ${formatBytes(fileResult.optimizedSize)} (saved ${formatBytes(fileResult.bytesSaved)})`
+								);
+							}
+						} else if (mergedOptions.verbose) {
+							logger.info(`${path.basename(file)} - Skipped (already optimized)`);
+						}
+					}
+				);
+				watchUntilInterrupted(watcher, logger);
+				return;
+			}
+
 			const exitCode =
 				result.stats.errors.length > 0
 					? ExitCode.Error
-					: result.failedFiles.length > 0
+					: result.failedFiles.length > 0 || compressibleFiles.length > 0
 						? ExitCode.IssuesFound
 						: ExitCode.Success;
 
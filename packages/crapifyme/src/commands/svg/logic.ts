@@ -19,12 +19,14 @@ import {
 	DEFAULT_SVG_EXTENSIONS,
 	isSupportedSvgExtension
 } from './types';
-import { Logger, detectVersionControl, resolvePath } from '../../shared';
+import { Logger, FileWatcher, RunJournal, detectVersionControl, resolvePath } from '../../shared';
 
 export class SvgProcessor {
 	private logger: Logger;
 	private progressBar?: cliProgress.SingleBar;
 	private spinner?: ora.Ora;
+	private fileWatcher?: FileWatcher;
+	private journal?: RunJournal;
 
 	constructor(logger: Logger) {
 		this.logger = logger;
@@ -52,6 +54,9 @@ export class SvgProcessor {
 
 		try {
 			await this.performSafetyChecks(options);
+			if (!options.dryRun && !this.journal) {
+				this.journal = new RunJournal('svg');
+			}
 
 			const files = await this.findSvgFiles(target, options);
 
@@ -159,6 +164,40 @@ export class SvgProcessor {
 		}
 	}
 
+	async watchSvgFiles(
+		target: string,
+		options: SvgOptions,
+		onResult: (file: string, result: SvgOptimizationResult | null, error?: Error) => void
+	): Promise<FileWatcher> {
+		const config = createProcessingConfig(options);
+		const extensions = options.extensions
+			? typeof options.extensions === 'string'
+				? options.extensions.split(',')
+				: options.extensions
+			: [...DEFAULT_SVG_EXTENSIONS];
+		const exclude = typeof options.exclude === 'string' ? [options.exclude] : options.exclude || [];
+
+		this.fileWatcher = new FileWatcher(
+			{
+				paths: [resolvePath(target)],
+				extensions,
+				exclude: ['**/*.min.svg', '**/*.optimized.svg', '**/*.original.svg', ...exclude],
+				logger: this.logger
+			},
+			async filePath => {
+				try {
+					const result = await this.processSingleFile(filePath, config, options);
+					onResult(filePath, result);
+				} catch (error) {
+					onResult(filePath, null, error instanceof Error ? error : new Error(String(error)));
+				}
+			}
+		);
+
+		await this.fileWatcher.start();
+		return this.fileWatcher;
+	}
+
 	private async performSafetyChecks(options: SvgOptions): Promise<void> {
 		if (!options.force && !options.dryRun) {
 			const vcs = detectVersionControl();
@@ -550,7 +589,7 @@ export class SvgProcessor {
 	): Promise<void> {
 		if (options.backup && outputPath === inputPath) {
 			const backupPath = inputPath.replace(/\.svg$/, '.original.svg');
-			await fs.writeFile(backupPath, originalContent);
+			await this.writeOutput(backupPath, originalContent);
 		}
 
 		if (options.stdout && !options.outputDir) {
@@ -558,7 +597,16 @@ export class SvgProcessor {
 			return;
 		}
 
-		await fs.writeFile(outputPath, optimizedContent);
+		await this.writeOutput(outputPath, optimizedContent);
+	}
+
+	private async writeOutput(filePath: string, content: string): Promise<void> {
+		const snapshot = this.journal ? await this.journal.snapshot(filePath) : null;
+		this.fileWatcher?.markWritten(filePath, content);
+		await fs.writeFile(filePath, content);
+		if (this.journal && snapshot) {
+			await this.journal.record(snapshot, content);
+		}
 	}
 
 	private getAppliedPlugins(config: SvgoConfig): string[] {
@@ -65,6 +65,7 @@ export interface SvgOptions {
 	quiet?: boolean;
 	json?: boolean;
 	report?: string;
+	minSavings?: number;
 	sizeInfo?: boolean;
 
 	inlineStyles?: boolean;
@@ -0,0 +1,79 @@
+import { Command } from 'commander';
+import path from 'path';
+import {
+	ExitCode,
+	JOURNAL_DIRECTORY,
+	Logger,
+	findUndoConflicts,
+	listRuns,
+	loadRun,
+	restoreRun
+} from '../../shared';
+
+export const undoCommand = new Command('undo')
+	.description(`Restore the files changed by a previous run from the ${JOURNAL_DIRECTORY} journal`)
+	.argument('[run-id]', 'Run to undo (default: the most recent run that was not undone)')
+	.option('--list', 'List the recorded runs instead of undoing one')
+	.action(async (runId: string | undefined, options: any, command: Command) => {
+		const globalOptions = command.parent?.opts() || {};
+		const logger = new Logger(globalOptions.verbose, globalOptions.quiet, globalOptions.json);
+
+		try {
+			if (options.list) {
+				const runs = await listRuns();
+				if (globalOptions.json) {
+					logger.json(runs);
+				} else if (runs.length === 0) {
+					logger.info(`No runs recorded in ${JOURNAL_DIRECTORY}`);
+				} else {
+					for (const run of runs) {
+						console.log(
+							`${run.id}  ${run.command}  ${run.files.length} file${run.files.length === 1 ? '' : 's'}${run.undoneAt ? '  (undone)' : ''}`
+						);
+					}
+				}
+				process.exit(ExitCode.Success);
+			}
+
+			const run = await loadRun(runId);
+			const conflicts = await findUndoConflicts(run);
+			if (conflicts.length > 0) {
+				for (const conflict of conflicts) {
+					logger.error(`${path.relative(process.cwd(), conflict.file)}: ${conflict.reason}`);
+				}
+				logger.error(`Refusing to undo ${run.id}; no files were restored`);
+				process.exit(ExitCode.Error);
+			}
+
+			const previewOnly = globalOptions.dryRun || globalOptions.check;
+			if (!previewOnly) {
+				await restoreRun(run);
+			}
+
+			if (globalOptions.json) {
+				logger.json({
+					run: run.id,
+					files: run.files.map(entry => entry.file),
+					restored: !previewOnly
+				});
+			} else {
+				for (const entry of run.files) {
+					const file = path.relative(process.cwd(), entry.file);
+					const action = entry.before ? 'restore' : 'delete';
+					logger.success(
+						previewOnly
+							? `Would ${action} ${file}`
+							: `${action === 'restore' ? 'Restored' : 'Deleted'} ${file}`
+					);
+				}
+				logger.info(
+					`${previewOnly ? 'DRY RUN - would undo' : 'Undid'} ${run.id} (${run.command}, ${run.files.length} file${run.files.length === 1 ? '' : 's'})`
+				);
+			}
+
+			process.exit(ExitCode.Success);
+		} catch (error) {
+			logger.error(`Undo failed: ${(error as Error).message}`, error as Error);
+			process.exit(ExitCode.Error);
+		}
+	});
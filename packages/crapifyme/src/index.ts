@@ -1,5 +1,17 @@
 export { AdvancedCommentRemover } from './commands/comments/advanced-logic';
 export { LogsProcessor } from './commands/logs/logic';
 export { ImportsProcessor } from './commands/imports/logic';
+export { CharacterDetector } from './commands/chars/logic';
+export { SvgProcessor } from './commands/svg/logic';
+export { Base64Processor } from './commands/base64/logic';
+export { DepsProcessor } from './commands/deps/logic';
 
+export * from './commands/chars/types';
+export * from './commands/svg/types';
+export * from './commands/base64/types';
+export * from './commands/deps/types';
+export * from './commands/imports/types';
+
+export * from './api';
 export * from './shared';
+export * from './plugins';
@@ -0,0 +1,14 @@
+import { createCrapifyTransformer } from './core';
+
+describe('createCrapifyTransformer', () => {
+	const transformer = createCrapifyTransformer({ comments: false, sourceMap: false });
+
+	it('keeps expressions valid when removing logs', () => {
+		const result = transformer.transform(
+			'cond && console.log(x);\nconst f = () => console.log(1);\n',
+			'/src/a.js'
+		);
+
+		expect(result?.code).toBe('cond && void 0;\nconst f = () => {};\n');
+	});
+});
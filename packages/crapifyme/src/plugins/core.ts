@@ -0,0 +1,144 @@
+import { minimatch } from 'minimatch';
+import path from 'path';
+import { AdvancedCommentRemover } from '../commands/comments/advanced-logic';
+import { LogsOptions, LogsProcessor } from '../commands/logs/logic';
+import { Logger } from '../shared/logger';
+import { RawSourceMap, composeSourceMaps } from '../shared/source-map';
+import { ProcessResult } from '../shared/types';
+
+export const LOG_EXTENSIONS = [
+	'js',
+	'jsx',
+	'ts',
+	'tsx',
+	'mjs',
+	'cjs',
+	'mts',
+	'cts',
+	'vue',
+	'svelte',
+	'astro'
+];
+export const COMMENT_EXTENSIONS = [...LOG_EXTENSIONS, 'css', 'scss', 'less', 'sass', 'html'];
+
+export interface CommentsPluginOptions {
+	keep?: string[];
+	preserveFramework?: boolean;
+	preserveDevelopment?: boolean;
+	preserveTooling?: boolean;
+	preserveDocumentation?: boolean;
+}
+
+export type FilterPattern = string | RegExp | Array<string | RegExp>;
+
+export interface CrapifyPluginOptions {
+	logs?: boolean | LogsOptions;
+	comments?: boolean | CommentsPluginOptions;
+	include?: FilterPattern;
+	exclude?: FilterPattern;
+	sourceMap?: boolean;
+}
+
+export interface PluginTransformResult {
+	code: string;
+	map: RawSourceMap | null;
+}
+
+export interface CrapifyTransformer {
+	filter(id: string): boolean;
+	transform(code: string, id: string, inputMap?: RawSourceMap | null): PluginTransformResult | null;
+}
+
+const DEFAULT_KEEP_COMMENTS = ['todo', 'fixme', 'hack', 'ts-ignore', 'eslint-disable'];
+
+export function createCrapifyTransformer(options: CrapifyPluginOptions = {}): CrapifyTransformer {
+	const logsOptions =
+		options.logs === false ? null : options.logs === true ? {} : options.logs || {};
+	const commentsOptions =
+		options.comments === false ? null : options.comments === true ? {} : options.comments || {};
+
+	const sourceMap = options.sourceMap !== false;
+	const logsProcessor = logsOptions
+		? new LogsProcessor({ ast: true, ...logsOptions, sourceMap })
+		: null;
+	const commentRemover = commentsOptions
+		? new AdvancedCommentRemover(commentsOptions.keep || DEFAULT_KEEP_COMMENTS, {
+				logger: new Logger(false, true, false, true),
+				preserveFramework: commentsOptions.preserveFramework,
+				preserveDevelopment: commentsOptions.preserveDevelopment,
+				preserveTooling: commentsOptions.preserveTooling,
+				preserveDocumentation: commentsOptions.preserveDocumentation,
+				useEnhancedTokenizer: true,
+				sourceMap
+			})
+		: null;
+
+	const include = toPatterns(options.include);
+	const exclude = toPatterns(options.exclude ?? /[\\/]node_modules[\\/]/);
+
+	const filter = (id: string): boolean => {
+		if (id.startsWith('\0')) return false;
+
+		const filePath = cleanModuleId(id);
+		const extension = path.extname(filePath).slice(1).toLowerCase();
+		if (!COMMENT_EXTENSIONS.includes(extension)) return false;
+		if (include.length > 0 && !matchesAny(filePath, include)) return false;
+		return !matchesAny(filePath, exclude);
+	};
+
+	const transform = (
+		code: string,
+		id: string,
+		inputMap?: RawSourceMap | null
+	): PluginTransformResult | null => {
+		if (!filter(id)) return null;
+
+		const filePath = cleanModuleId(id);
+		const extension = path.extname(filePath).slice(1).toLowerCase();
+		const passes: Array<(content: string) => ProcessResult> = [];
+
+		if (logsProcessor && LOG_EXTENSIONS.includes(extension)) {
+			passes.push(content => logsProcessor.processFile(content, undefined, { source: filePath }));
+		}
+		if (commentRemover) {
+			passes.push(content => commentRemover.removeComments(content, filePath));
+		}
+
+		let current = code;
+		let modified = false;
+		const maps: Array<RawSourceMap | undefined> = [inputMap || undefined];
+
+		for (const pass of passes) {
+			const result = pass(current);
+			if (!result.modified) continue;
+
+			current = result.content;
+			modified = true;
+			maps.push(result.map);
+		}
+
+		if (!modified) return null;
+
+		return { code: current, map: sourceMap ? composeSourceMaps(maps) : null };
+	};
+
+	return { filter, transform };
+}
+
+export function cleanModuleId(id: string): string {
+	return id.replace(/[?#].*$/, '');
+}
+
+function toPatterns(pattern?: FilterPattern): Array<string | RegExp> {
+	if (pattern === undefined) return [];
+	return Array.isArray(pattern) ? pattern : [pattern];
+}
+
+function matchesAny(filePath: string, patterns: Array<string | RegExp>): boolean {
+	const normalized = filePath.split(path.sep).join('/');
+	return patterns.some(pattern =>
+		typeof pattern === 'string'
+			? minimatch(normalized, pattern, { dot: true })
+			: pattern.test(normalized)
+	);
+}
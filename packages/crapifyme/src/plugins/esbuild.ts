@@ -0,0 +1,58 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { toInlineSourceMapComment } from '../shared/source-map';
+import { COMMENT_EXTENSIONS, CrapifyPluginOptions, createCrapifyTransformer } from './core';
+
+type EsbuildLoader = 'js' | 'jsx' | 'ts' | 'tsx' | 'css';
+
+export interface CrapifyEsbuildPlugin {
+	name: string;
+	setup(build: {
+		onLoad(
+			options: { filter: RegExp; namespace?: string },
+			callback: (args: {
+				path: string;
+			}) => Promise<{ contents: string; loader: EsbuildLoader } | undefined>
+		): void;
+	}): void;
+}
+
+const LOADERS: Record<string, EsbuildLoader> = {
+	js: 'js',
+	mjs: 'js',
+	cjs: 'js',
+	jsx: 'jsx',
+	ts: 'ts',
+	mts: 'ts',
+	cts: 'ts',
+	tsx: 'tsx',
+	css: 'css'
+};
+
+export function crapifyEsbuild(options: CrapifyPluginOptions = {}): CrapifyEsbuildPlugin {
+	const transformer = createCrapifyTransformer(options);
+	const extensions = COMMENT_EXTENSIONS.filter(extension => extension in LOADERS);
+	const filter = new RegExp(`\\.(${extensions.join('|')})$`);
+
+	return {
+		name: 'crapifyme',
+		setup(build) {
+			build.onLoad({ filter, namespace: 'file' }, async args => {
+				if (!transformer.filter(args.path)) return undefined;
+
+				const code = await fs.readFile(args.path, 'utf-8');
+				const result = transformer.transform(code, args.path);
+				if (!result) return undefined;
+
+				const loader = LOADERS[path.extname(args.path).slice(1).toLowerCase()];
+				const contents = result.map
+					? `${result.code}\n${toInlineSourceMapComment(result.map)}\n`
+					: result.code;
+
+				return { contents, loader };
+			});
+		}
+	};
+}
+
+export default crapifyEsbuild;
@@ -0,0 +1,6 @@
+export * from './core';
+export { crapifyRollup, crapifyVite } from './vite';
+export type { CrapifyRollupPlugin, CrapifyVitePluginOptions } from './vite';
+export { crapifyEsbuild } from './esbuild';
+export type { CrapifyEsbuildPlugin } from './esbuild';
+export { default as crapifyWebpackLoader } from './webpack';
@@ -0,0 +1,5 @@
+import { crapifyRollup } from './vite';
+
+export { crapifyRollup };
+export type { CrapifyRollupPlugin } from './vite';
+export default crapifyRollup;
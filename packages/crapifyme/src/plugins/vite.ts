@@ -0,0 +1,35 @@
+import { CrapifyPluginOptions, PluginTransformResult, createCrapifyTransformer } from './core';
+
+export interface CrapifyRollupPlugin {
+	name: string;
+	enforce?: 'pre' | 'post';
+	apply?: 'build' | 'serve';
+	transform(code: string, id: string): PluginTransformResult | null;
+}
+
+export interface CrapifyVitePluginOptions extends CrapifyPluginOptions {
+	apply?: 'build' | 'serve';
+}
+
+export function crapifyRollup(options: CrapifyPluginOptions = {}): CrapifyRollupPlugin {
+	const transformer = createCrapifyTransformer(options);
+
+	return {
+		name: 'crapifyme',
+		transform(code, id) {
+			return transformer.transform(code, id);
+		}
+	};
+}
+
+export function crapifyVite(options: CrapifyVitePluginOptions = {}): CrapifyRollupPlugin {
+	const { apply = 'build', ...pluginOptions } = options;
+
+	return {
+		...crapifyRollup(pluginOptions),
+		enforce: 'pre',
+		apply
+	};
+}
+
+export default crapifyVite;
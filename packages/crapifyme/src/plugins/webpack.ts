@@ -0,0 +1,44 @@
+import { RawSourceMap } from '../shared/source-map';
+import { CrapifyPluginOptions, createCrapifyTransformer } from './core';
+
+interface LoaderContext {
+	resourcePath: string;
+	resourceQuery?: string;
+	sourceMap?: boolean;
+	cacheable?(flag?: boolean): void;
+	getOptions?(): CrapifyPluginOptions;
+	query?: CrapifyPluginOptions | string;
+	callback(error: Error | null, content?: string, sourceMap?: RawSourceMap | null): void;
+}
+
+export default function crapifyLoader(
+	this: LoaderContext,
+	source: string,
+	inputMap?: RawSourceMap | string | null
+): void {
+	this.cacheable?.();
+
+	const options =
+		this.getOptions?.() || (typeof this.query === 'object' ? this.query : undefined) || {};
+	const transformer = createCrapifyTransformer({
+		...options,
+		sourceMap: options.sourceMap ?? this.sourceMap !== false
+	});
+	try {
+		const parsedInputMap = typeof inputMap === 'string' ? JSON.parse(inputMap) : inputMap;
+		const result = transformer.transform(
+			source,
+			`${this.resourcePath}${this.resourceQuery || ''}`,
+			parsedInputMap
+		);
+
+		if (!result) {
+			this.callback(null, source, parsedInputMap);
+			return;
+		}
+
+		this.callback(null, result.code, result.map);
+	} catch (error) {
+		this.callback(error as Error);
+	}
+}
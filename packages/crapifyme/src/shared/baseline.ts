@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export const DEFAULT_BASELINE_FILE = '.crapifyme-baseline.json';
+
+export interface BaselineFinding {
+	file: string;
+	ruleId: string;
+	context: string;
+}
+
+export interface BaselineEntry {
+	file: string;
+	ruleId: string;
+	fingerprint: string;
+	count: number;
+}
+
+export interface BaselineData {
+	version: 1;
+	commands: Record<string, BaselineEntry[]>;
+}
+
+export class BaselineError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BaselineError';
+	}
+}
+
+export class Baseline {
+	readonly filePath: string;
+	readonly command: string;
+	readonly updating: boolean;
+	private readonly root: string;
+	private readonly data: BaselineData;
+	private remaining = new Map<string, number>();
+	private recorded = new Map<string, BaselineEntry>();
+	private files = new Set<string>();
+	private suppressedCount = 0;
+
+	private constructor(filePath: string, command: string, data: BaselineData, updating: boolean) {
+		this.filePath = filePath;
+		this.command = command;
+		this.data = data;
+		this.updating = updating;
+		this.root = path.dirname(filePath);
+
+		for (const entry of data.commands[command] || []) {
+			this.remaining.set(
+				entry.fingerprint,
+				(this.remaining.get(entry.fingerprint) || 0) + entry.count
+			);
+		}
+	}
+
+	static async load(filePath: string, command: string, updating = false): Promise<Baseline> {
+		const resolved = path.resolve(filePath);
+		let data: BaselineData = { version: 1, commands: {} };
+
+		try {
+			data = parseBaseline(await fs.readFile(resolved, 'utf-8'), resolved);
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				throw error;
+			}
+			if (!updating) {
+				throw new BaselineError(
+					`Baseline file not found: ${resolved}. Run with --update-baseline to create it`
+				);
+			}
+		}
+
+		return new Baseline(resolved, command, data, updating);
+	}
+
+	get suppressed(): number {
+		return this.suppressedCount;
+	}
+
+	get size(): number {
+		return [...this.recorded.values()].reduce((total, entry) => total + entry.count, 0);
+	}
+
+	addFile(file: string): void {
+		this.files.add(this.toRelativePath(file));
+	}
+
+	isNew(finding: BaselineFinding): boolean {
+		const file = this.toRelativePath(finding.file);
+		const fingerprint = createFingerprint(file, finding.ruleId, finding.context);
+		this.files.add(file);
+
+		if (this.updating) {
+			const entry = this.recorded.get(fingerprint);
+			if (entry) {
+				entry.count++;
+			} else {
+				this.recorded.set(fingerprint, { file, ruleId: finding.ruleId, fingerprint, count: 1 });
+			}
+			return false;
+		}
+
+		const remaining = this.remaining.get(fingerprint) || 0;
+		if (remaining > 0) {
+			this.remaining.set(fingerprint, remaining - 1);
+			this.suppressedCount++;
+			return false;
+		}
+
+		return true;
+	}
+
+	async save(): Promise<void> {
+		const kept = (this.data.commands[this.command] || []).filter(
+			entry => !this.files.has(entry.file)
+		);
+		const entries = [...kept, ...this.recorded.values()].sort(
+			(a, b) =>
+				a.file.localeCompare(b.file) ||
+				a.ruleId.localeCompare(b.ruleId) ||
+				a.fingerprint.localeCompare(b.fingerprint)
+		);
+
+		const data: BaselineData = {
+			version: 1,
+			commands: { ...this.data.commands, [this.command]: entries }
+		};
+
+		await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+		await fs.writeFile(this.filePath, `${JSON.stringify(data, null, 2)}\n`, 'utf-8');
+	}
+
+	private toRelativePath(file: string): string {
+		return path.relative(this.root, path.resolve(file)).split(path.sep).join('/');
+	}
+}
+
+export async function loadBaseline(
+	options: { baseline?: string; updateBaseline?: boolean },
+	command: string
+): Promise<Baseline | null> {
+	if (!options.baseline && !options.updateBaseline) {
+		return null;
+	}
+
+	return Baseline.load(
+		options.baseline || DEFAULT_BASELINE_FILE,
+		command,
+		Boolean(options.updateBaseline)
+	);
+}
+
+export function createFingerprint(file: string, ruleId: string, context: string): string {
+	return crypto
+		.createHash('sha1')
+		.update(`${file}\n${ruleId}\n${context.replace(/\s+/g, ' ').trim()}`)
+		.digest('hex')
+		.slice(0, 16);
+}
+
+function parseBaseline(content: string, filePath: string): BaselineData {
+	let data: any;
+	try {
+		data = JSON.parse(content);
+	} catch (error) {
+		throw new BaselineError(`Invalid baseline file ${filePath}: ${(error as Error).message}`);
+	}
+
+	if (!data || data.version !== 1 || typeof data.commands !== 'object' || !data.commands) {
+		throw new BaselineError(`Invalid baseline file ${filePath}: unsupported format`);
+	}
+
+	return data as BaselineData;
+}
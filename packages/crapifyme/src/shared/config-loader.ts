@@ -0,0 +1,351 @@
+import fssync from 'fs';
+import path from 'path';
+import { Command, Option } from 'commander';
+import { createJiti } from 'jiti';
+import { LineCounter, parseDocument, isMap, isScalar, Node as YamlNode } from 'yaml';
+import { ProjectConfig } from './types';
+
+export const CONFIG_FILE_NAMES = [
+	'.crapifyrc',
+	'.crapifyrc.json',
+	'.crapifyrc.yaml',
+	'.crapifyrc.yml',
+	'.crapifyrc.js',
+	'.crapifyrc.cjs',
+	'crapify.config.json',
+	'crapify.config.yaml',
+	'crapify.config.yml',
+	'crapify.config.js',
+	'crapify.config.cjs',
+	'crapify.config.mjs',
+	'crapify.config.ts',
+	'crapify.config.cts',
+	'crapify.config.mts'
+] as const;
+
+const MODULE_EXTENSIONS = ['.js', '.cjs', '.mjs', '.ts', '.cts', '.mts'];
+const RESERVED_GLOBAL_KEYS = ['version', 'config', 'configFile'];
+
+export interface ConfigIssue {
+	message: string;
+	line?: number;
+	column?: number;
+}
+
+export class ConfigError extends Error {
+	public readonly filePath: string;
+	public readonly issues: ConfigIssue[];
+
+	constructor(filePath: string, issues: ConfigIssue[]) {
+		super(issues.map(issue => `${formatLocation(filePath, issue)} - ${issue.message}`).join('\n'));
+		this.name = 'ConfigError';
+		this.filePath = filePath;
+		this.issues = issues;
+	}
+}
+
+export interface LoadedConfig {
+	filePath: string;
+	config: ProjectConfig;
+	locate(keyPath: string[]): { line: number; column: number } | undefined;
+}
+
+type ConfigKeyKind = 'boolean' | 'value' | 'optional-value';
+
+export interface ConfigSchema {
+	global: Record<string, ConfigKeyKind>;
+	shared: Record<string, ConfigKeyKind>;
+	sections: Record<string, Record<string, ConfigKeyKind>>;
+}
+
+export function defineConfig(config: ProjectConfig): ProjectConfig {
+	return config;
+}
+
+export function findConfigFile(startPath: string = process.cwd()): string | null {
+	let currentPath = path.resolve(startPath);
+	const rootPath = path.parse(currentPath).root;
+
+	while (true) {
+		for (const fileName of CONFIG_FILE_NAMES) {
+			const candidate = path.join(currentPath, fileName);
+			try {
+				if (fssync.existsSync(candidate) && fssync.statSync(candidate).isFile()) {
+					return candidate;
+				}
+			} catch {}
+		}
+
+		if (currentPath === rootPath) {
+			return null;
+		}
+		currentPath = path.dirname(currentPath);
+	}
+}
+
+export async function loadConfig(filePath: string): Promise<LoadedConfig> {
+	const resolved = path.resolve(filePath);
+
+	if (!fssync.existsSync(resolved)) {
+		throw new ConfigError(resolved, [{ message: 'Configuration file not found' }]);
+	}
+
+	if (MODULE_EXTENSIONS.includes(path.extname(resolved))) {
+		return loadModuleConfig(resolved);
+	}
+
+	return loadDocumentConfig(resolved);
+}
+
+export async function loadProjectConfig(
+	startPath: string = process.cwd(),
+	explicitPath?: string
+): Promise<LoadedConfig | null> {
+	const filePath = explicitPath ? path.resolve(startPath, explicitPath) : findConfigFile(startPath);
+	if (!filePath) {
+		return null;
+	}
+	return loadConfig(filePath);
+}
+
+export function buildConfigSchema(program: Command): ConfigSchema {
+	const schema: ConfigSchema = { global: {}, shared: {}, sections: {} };
+
+	for (const option of program.options as Option[]) {
+		const key = option.attributeName();
+		if (!RESERVED_GLOBAL_KEYS.includes(key)) {
+			schema.global[key] = getOptionKind(option);
+		}
+	}
+
+	for (const command of program.commands) {
+		const section: Record<string, ConfigKeyKind> = {};
+		for (const nested of [command, ...command.commands]) {
+			for (const option of nested.options as Option[]) {
+				section[option.attributeName()] = getOptionKind(option);
+			}
+		}
+		schema.sections[command.name()] = section;
+		Object.assign(schema.shared, section);
+	}
+
+	return schema;
+}
+
+export function validateConfig(loaded: LoadedConfig, schema: ConfigSchema): void {
+	const issues: ConfigIssue[] = [];
+	const { config } = loaded;
+
+	const report = (keyPath: string[], message: string) => {
+		issues.push({ message, ...loaded.locate(keyPath) });
+	};
+
+	for (const [key, value] of Object.entries(config)) {
+		if (key in schema.sections) {
+			if (!isPlainObject(value)) {
+				report([key], `Section "${key}" must be an object`);
+				continue;
+			}
+			for (const [optionKey, optionValue] of Object.entries(value)) {
+				const kind = schema.sections[key][optionKey];
+				if (!kind) {
+					report([key, optionKey], `Unknown option "${optionKey}" in section "${key}"`);
+				} else {
+					const typeError = checkValueKind(optionValue, kind);
+					if (typeError) report([key, optionKey], `Option "${key}.${optionKey}" ${typeError}`);
+				}
+			}
+			continue;
+		}
+
+		const kind = schema.global[key] || schema.shared[key];
+		if (!kind) {
+			report([key], `Unknown option "${key}"`);
+			continue;
+		}
+
+		const typeError = checkValueKind(value, kind);
+		if (typeError) report([key], `Option "${key}" ${typeError}`);
+	}
+
+	if (issues.length > 0) {
+		throw new ConfigError(loaded.filePath, issues);
+	}
+}
+
+export async function applyProjectConfig(
+	program: Command,
+	actionCommand: Command
+): Promise<LoadedConfig | null> {
+	const globalOptions = program.opts();
+	if (globalOptions.config === false) {
+		return null;
+	}
+
+	const loaded = await loadProjectConfig(process.cwd(), globalOptions.configFile);
+	if (!loaded) {
+		return null;
+	}
+
+	validateConfig(loaded, buildConfigSchema(program));
+
+	const { config } = loaded;
+	const sectionName = getSectionName(program, actionCommand);
+	const section = sectionName && isPlainObject(config[sectionName]) ? config[sectionName] : {};
+
+	for (const option of program.options as Option[]) {
+		const key = option.attributeName();
+		if (!RESERVED_GLOBAL_KEYS.includes(key) && key in config) {
+			applyOptionValue(program, option, config[key]);
+		}
+	}
+
+	for (const option of actionCommand.options as Option[]) {
+		const key = option.attributeName();
+		if (key in section) {
+			applyOptionValue(actionCommand, option, section[key]);
+		} else if (key in config) {
+			applyOptionValue(actionCommand, option, config[key]);
+		}
+	}
+
+	return loaded;
+}
+
+function applyOptionValue(command: Command, option: Option, value: unknown): void {
+	const key = option.attributeName();
+	const source = command.getOptionValueSource(key);
+	if (source === 'cli' || source === 'env') {
+		return;
+	}
+
+	command.setOptionValueWithSource(key, normalizeOptionValue(option, value), 'config');
+}
+
+function normalizeOptionValue(option: Option, value: unknown): unknown {
+	if (typeof value === 'boolean') {
+		return value;
+	}
+
+	if (Array.isArray(value)) {
+		value = value.map(item => String(item).trim()).join(',');
+	}
+
+	if (typeof value === 'string' && option.parseArg) {
+		return option.parseArg(value, undefined);
+	}
+
+	return value;
+}
+
+function getSectionName(program: Command, actionCommand: Command): string | null {
+	let current: Command | null = actionCommand;
+	while (current && current.parent && current.parent !== program) {
+		current = current.parent;
+	}
+	return current && current !== program ? current.name() : null;
+}
+
+function getOptionKind(option: Option): ConfigKeyKind {
+	if (option.required) return 'value';
+	if (option.optional) return 'optional-value';
+	return 'boolean';
+}
+
+function checkValueKind(value: unknown, kind: ConfigKeyKind): string | null {
+	const isScalarValue = typeof value === 'string' || typeof value === 'number';
+	const isList =
+		Array.isArray(value) &&
+		value.every(item => typeof item === 'string' || typeof item === 'number');
+
+	switch (kind) {
+		case 'boolean':
+			return typeof value === 'boolean' ? null : 'must be a boolean';
+		case 'value':
+			return isScalarValue || isList ? null : 'must be a string, number or list of strings';
+		case 'optional-value':
+			return typeof value === 'boolean' || isScalarValue || isList
+				? null
+				: 'must be a boolean, string, number or list of strings';
+	}
+}
+
+async function loadModuleConfig(filePath: string): Promise<LoadedConfig> {
+	let exported: unknown;
+
+	try {
+		const jiti = createJiti(__filename, { moduleCache: false });
+		exported = await jiti.import(filePath, { default: true });
+		if (typeof exported === 'function') {
+			exported = await exported();
+		}
+	} catch (error) {
+		throw new ConfigError(filePath, [
+			{ message: `Failed to load module: ${(error as Error).message}` }
+		]);
+	}
+
+	if (!isPlainObject(exported)) {
+		throw new ConfigError(filePath, [{ message: 'Configuration module must export an object' }]);
+	}
+
+	return {
+		filePath,
+		config: exported as ProjectConfig,
+		locate: () => undefined
+	};
+}
+
+function loadDocumentConfig(filePath: string): LoadedConfig {
+	const source = fssync.readFileSync(filePath, 'utf-8');
+	const lineCounter = new LineCounter();
+	const document = parseDocument(source, { lineCounter, prettyErrors: false });
+
+	if (document.errors.length > 0) {
+		throw new ConfigError(
+			filePath,
+			document.errors.map(error => ({
+				message: error.message.split('\n')[0],
+				line: error.linePos?.[0].line,
+				column: error.linePos?.[0].col
+			}))
+		);
+	}
+
+	const config = document.toJS() ?? {};
+	if (!isPlainObject(config)) {
+		throw new ConfigError(filePath, [
+			{ message: 'Configuration must be an object', line: 1, column: 1 }
+		]);
+	}
+
+	const locate = (keyPath: string[]) => {
+		let node: unknown = document.contents;
+		let keyNode: YamlNode | undefined;
+
+		for (const key of keyPath) {
+			if (!isMap(node)) return undefined;
+			const pair = node.items.find(item => isScalar(item.key) && String(item.key.value) === key);
+			if (!pair) return undefined;
+			keyNode = pair.key as YamlNode;
+			node = pair.value;
+		}
+
+		if (!keyNode?.range) return undefined;
+		const position = lineCounter.linePos(keyNode.range[0]);
+		return { line: position.line, column: position.col };
+	};
+
+	return { filePath, config: config as ProjectConfig, locate };
+}
+
+function formatLocation(filePath: string, issue: ConfigIssue): string {
+	if (issue.line === undefined) return filePath;
+	return issue.column === undefined
+		? `${filePath}:${issue.line}`
+		: `${filePath}:${issue.line}:${issue.column}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,45 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DiffError, createDiffCollector } from './diff';
+
+describe('DiffCollector', () => {
+	let directory: string;
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'crapifyme-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(directory, { recursive: true, force: true });
+	});
+
+	it('only writes to a file when --diff-output is given', () => {
+		expect(createDiffCollector(undefined)).toBeNull();
+		expect(createDiffCollector(true)?.writesToFile).toBe(false);
+		expect(createDiffCollector(undefined, 'a.patch')?.writesToFile).toBe(true);
+	});
+
+	it('saves the patch next to the processed files', async () => {
+		const file = path.join(directory, 'a.js');
+		const output = path.join(directory, 'a.patch');
+		await fs.writeFile(file, 'console.log(1);\n');
+
+		const collector = createDiffCollector(undefined, output)!;
+		collector.add(file, 'console.log(1);\n', '\n');
+
+		expect(await collector.save([file])).toBe(output);
+		expect(await fs.readFile(output, 'utf-8')).toContain('-console.log(1);');
+	});
+
+	it('refuses to overwrite a processed file', async () => {
+		const file = path.join(directory, 'a.js');
+		await fs.writeFile(file, 'console.log(1);\n');
+
+		const collector = createDiffCollector(undefined, path.join(directory, '.', 'a.js'))!;
+		collector.add(file, 'console.log(1);\n', '\n');
+
+		await expect(collector.save([file])).rejects.toThrow(DiffError);
+		expect(await fs.readFile(file, 'utf-8')).toBe('console.log(1);\n');
+	});
+});
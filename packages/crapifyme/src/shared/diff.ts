@@ -0,0 +1,142 @@
+import chalk from 'chalk';
+import { structuredPatch } from 'diff';
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface FileDiff {
+	file: string;
+	patch: string;
+	additions: number;
+	deletions: number;
+}
+
+export function createFileDiff(
+	filePath: string,
+	originalContent: string,
+	modifiedContent: string,
+	cwd: string = process.cwd()
+): FileDiff {
+	const relativePath = path.relative(cwd, path.resolve(cwd, filePath)).split(path.sep).join('/');
+	const structured = structuredPatch(
+		`a/${relativePath}`,
+		`b/${relativePath}`,
+		originalContent,
+		modifiedContent,
+		'',
+		'',
+		{ context: 3 }
+	);
+
+	const lines = [
+		`diff --git a/${relativePath} b/${relativePath}`,
+		`--- a/${relativePath}`,
+		`+++ b/${relativePath}`
+	];
+	let additions = 0;
+	let deletions = 0;
+
+	for (const hunk of structured.hunks) {
+		const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+		const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+		lines.push(
+			`@@ -${formatRange(oldStart, hunk.oldLines)} +${formatRange(newStart, hunk.newLines)} @@`
+		);
+
+		for (const line of hunk.lines) {
+			if (line.startsWith('+')) additions++;
+			else if (line.startsWith('-')) deletions++;
+			lines.push(line);
+		}
+	}
+
+	return {
+		file: relativePath,
+		patch: structured.hunks.length > 0 ? `${lines.join('\n')}\n` : '',
+		additions,
+		deletions
+	};
+}
+
+export function formatDiff(diff: FileDiff): string {
+	return diff.patch
+		.replace(/\n$/, '')
+		.split('\n')
+		.map(line => {
+			if (line.startsWith('diff --git') || line.startsWith('---') || line.startsWith('+++')) {
+				return chalk.bold(line);
+			}
+			if (line.startsWith('@@')) return chalk.cyan(line);
+			if (line.startsWith('+')) return chalk.green(line);
+			if (line.startsWith('-')) return chalk.red(line);
+			if (line.startsWith('\\')) return chalk.dim(line);
+			return line;
+		})
+		.join('\n');
+}
+
+export class DiffError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'DiffError';
+	}
+}
+
+export class DiffCollector {
+	private diffs: FileDiff[] = [];
+	private readonly outputFile?: string;
+
+	constructor(outputFile?: string) {
+		this.outputFile = outputFile;
+	}
+
+	get writesToFile(): boolean {
+		return this.outputFile !== undefined;
+	}
+
+	add(filePath: string, originalContent: string, modifiedContent: string): FileDiff {
+		const fileDiff = createFileDiff(filePath, originalContent, modifiedContent);
+		if (fileDiff.patch) {
+			this.diffs.push(fileDiff);
+		}
+		return fileDiff;
+	}
+
+	getDiffs(): FileDiff[] {
+		return [...this.diffs];
+	}
+
+	toPatch(): string {
+		return this.diffs.map(diff => diff.patch).join('');
+	}
+
+	async save(processedFiles: string[] = []): Promise<string | null> {
+		if (!this.outputFile) return null;
+
+		const outputPath = path.resolve(this.outputFile);
+		const target = await toRealPath(outputPath);
+		const processed = await Promise.all(processedFiles.map(file => toRealPath(path.resolve(file))));
+		if (processed.includes(target)) {
+			throw new DiffError(
+				`Refusing to write the patch to ${this.outputFile}: it is one of the processed files`
+			);
+		}
+
+		await fs.writeFile(outputPath, this.toPatch(), 'utf-8');
+		return outputPath;
+	}
+}
+
+export function createDiffCollector(diff: unknown, diffOutput?: string): DiffCollector | null {
+	if (!diff && diffOutput === undefined) {
+		return null;
+	}
+	return new DiffCollector(diffOutput);
+}
+
+function toRealPath(filePath: string): Promise<string> {
+	return fs.realpath(filePath).catch(() => filePath);
+}
+
+function formatRange(start: number, count: number): string {
+	return count === 1 ? `${start}` : `${start},${count}`;
+}
@@ -0,0 +1,87 @@
+import { LineRangeFilter, mergeLineRanges } from './line-ranges';
+import { LineRange } from './types';
+
+export type IgnoreDirectiveKind = 'next-line' | 'start' | 'end' | 'file';
+
+export interface IgnoreDirective {
+	kind: IgnoreDirectiveKind;
+	commands: string[];
+	line: number;
+}
+
+export const IGNORE_DIRECTIVE_PATTERN = /crapify-ignore-(next-line|start|end|file)(?![\w-])/;
+
+const COMMENT_MARKER_PATTERN = /(\/\/|\/\*|<!--|#|^\s*\*)/;
+
+export function parseIgnoreDirectives(content: string): IgnoreDirective[] {
+	const directives: IgnoreDirective[] = [];
+	if (!content.includes('crapify-ignore-')) {
+		return directives;
+	}
+
+	const lines = content.split('\n');
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index];
+		const match = line.match(IGNORE_DIRECTIVE_PATTERN);
+		if (!match || !COMMENT_MARKER_PATTERN.test(line.slice(0, match.index))) {
+			continue;
+		}
+
+		const rest = line
+			.slice(match.index! + match[0].length)
+			.split(/\s--\s|\*\/|-->|\}/)[0]
+			.trim();
+
+		directives.push({
+			kind: match[1] as IgnoreDirectiveKind,
+			commands: rest
+				.split(/[\s,]+/)
+				.map(command => command.toLowerCase())
+				.filter(command => /^[a-z][\w-]*$/.test(command)),
+			line: index + 1
+		});
+	}
+
+	return directives;
+}
+
+export class IgnoreDirectives {
+	readonly ignoresFile: boolean;
+	private readonly ranges: LineRange[];
+	private readonly lineFilter: LineRangeFilter;
+
+	constructor(content: string, command: string) {
+		const directives = parseIgnoreDirectives(content).filter(
+			directive => directive.commands.length === 0 || directive.commands.includes(command)
+		);
+		const ranges: LineRange[] = [];
+		let regionStart: number | null = null;
+
+		for (const directive of directives) {
+			if (directive.kind === 'next-line') {
+				ranges.push({ start: directive.line + 1, end: directive.line + 1 });
+			} else if (directive.kind === 'start') {
+				regionStart = regionStart ?? directive.line;
+			} else if (directive.kind === 'end' && regionStart !== null) {
+				ranges.push({ start: regionStart, end: directive.line });
+				regionStart = null;
+			}
+		}
+
+		if (regionStart !== null) {
+			ranges.push({ start: regionStart, end: Number.POSITIVE_INFINITY });
+		}
+
+		this.ignoresFile = directives.some(directive => directive.kind === 'file');
+		this.ranges = mergeLineRanges(ranges);
+		this.lineFilter = new LineRangeFilter(content, this.ranges);
+	}
+
+	isLineIgnored(line: number): boolean {
+		return this.ignoresFile || this.ranges.some(range => range.start <= line && line <= range.end);
+	}
+
+	isIgnored(position: number): boolean {
+		return this.isLineIgnored(this.lineFilter.getLine(position));
+	}
+}
@@ -0,0 +1,101 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileChangedError, readFile, writeFile } from './file-utils';
+import { RunJournal, listRuns } from './journal';
+
+describe('writeFile', () => {
+	let directory: string;
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'crapifyme-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(directory, { recursive: true, force: true });
+	});
+
+	it('replaces the file without leaving temporary files behind', async () => {
+		const file = path.join(directory, 'a.js');
+		await fs.writeFile(file, 'a(); // note\n');
+
+		await readFile(file);
+		await writeFile(file, 'a();\n');
+
+		expect(await fs.readFile(file, 'utf-8')).toBe('a();\n');
+		expect(await fs.readdir(directory)).toEqual(['a.js']);
+	});
+
+	it('keeps the file mode and byte order mark', async () => {
+		const file = path.join(directory, 'run.js');
+		await fs.writeFile(file, '\uFEFF// note\nrun();\n');
+		await fs.chmod(file, 0o755);
+
+		const content = await readFile(file);
+		await writeFile(file, content.replace('\uFEFF// note\n', ''));
+
+		expect(await fs.readFile(file, 'utf-8')).toBe('\uFEFFrun();\n');
+		expect((await fs.stat(file)).mode & 0o777).toBe(0o755);
+	});
+
+	it('writes through symlinks to their target', async () => {
+		const target = path.join(directory, 'target.js');
+		const link = path.join(directory, 'link.js');
+		await fs.writeFile(target, '// note\n');
+		await fs.symlink(target, link);
+
+		await readFile(link);
+		await writeFile(link, '');
+
+		expect((await fs.lstat(link)).isSymbolicLink()).toBe(true);
+		expect(await fs.readFile(target, 'utf-8')).toBe('');
+	});
+
+	it('refuses to overwrite a file that changed since it was read', async () => {
+		const file = path.join(directory, 'a.js');
+		await fs.writeFile(file, 'a();\n');
+
+		await readFile(file);
+		await fs.writeFile(file, 'a();\nb();\n');
+
+		await expect(writeFile(file, '')).rejects.toBeInstanceOf(FileChangedError);
+		expect(await fs.readFile(file, 'utf-8')).toBe('a();\nb();\n');
+	});
+
+	it('refuses to recreate a file that was deleted since it was read', async () => {
+		const file = path.join(directory, 'a.js');
+		await fs.writeFile(file, 'a();\n');
+
+		await readFile(file);
+		await fs.rm(file);
+
+		await expect(writeFile(file, '')).rejects.toBeInstanceOf(FileChangedError);
+		await expect(fs.stat(file)).rejects.toThrow();
+	});
+
+	it('accepts a file that was only touched since it was read', async () => {
+		const file = path.join(directory, 'a.js');
+		await fs.writeFile(file, 'a();\n');
+
+		await readFile(file);
+		const later = new Date(Date.now() + 10000);
+		await fs.utimes(file, later, later);
+		await writeFile(file, 'b();\n');
+
+		expect(await fs.readFile(file, 'utf-8')).toBe('b();\n');
+	});
+
+	it('records the original content and mode in the journal', async () => {
+		const file = path.join(directory, 'a.js');
+		await fs.writeFile(file, 'a();\n');
+		await fs.chmod(file, 0o700);
+
+		await readFile(file);
+		await writeFile(file, 'b();\n', new RunJournal('test', directory));
+
+		const [run] = await listRuns(directory);
+		expect(run.files).toEqual([
+			expect.objectContaining({ file: await fs.realpath(file), mode: 0o700 })
+		]);
+	});
+});
@@ -1,10 +1,34 @@
+import crypto from 'crypto';
 import fssync from 'fs';
 import fs from 'fs/promises';
 import { glob } from 'glob';
 import path from 'path';
 import { getIgnorePatterns } from './ignore-patterns';
+import { RunJournal } from './journal';
 
-export async function findFiles(patterns: string[], exclude: string[] = []): Promise<string[]> {
+const BOM = '\uFEFF';
+
+interface ReadState {
+	mtimeMs: number;
+	size: number;
+	hash: string;
+	bom: boolean;
+}
+
+const readStates = new Map<string, ReadState>();
+
+export class FileChangedError extends Error {
+	constructor(filePath: string) {
+		super(`${filePath} changed on disk since it was read; it was left as is`);
+		this.name = 'FileChangedError';
+	}
+}
+
+export async function findFiles(
+	patterns: string[],
+	exclude: string[] = [],
+	onlyFiles?: string[] | null
+): Promise<string[]> {
 	const allFiles: string[] = [];
 	const ignorePatterns = getIgnorePatterns(exclude);
 
@@ -14,15 +38,74 @@ export async function findFiles(patterns: string[], exclude: string[] = []): Pro
 		});
 		allFiles.push(...files);
 	}
-	return [...new Set(allFiles)];
+
+	const uniqueFiles = [...new Set(allFiles)];
+	if (!onlyFiles) {
+		return uniqueFiles;
+	}
+
+	const allowed = new Set(onlyFiles.map(toRealPath));
+	return uniqueFiles.filter(file => allowed.has(toRealPath(file)));
 }
 
 export async function readFile(filePath: string): Promise<string> {
-	return fs.readFile(filePath, 'utf-8');
+	const [buffer, stats] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+	const content = buffer.toString('utf-8');
+	readStates.set(path.resolve(filePath), {
+		mtimeMs: stats.mtimeMs,
+		size: stats.size,
+		hash: hashBuffer(buffer),
+		bom: content.startsWith(BOM)
+	});
+	return content;
 }
 
-export async function writeFile(filePath: string, content: string): Promise<void> {
-	await fs.writeFile(filePath, content, 'utf-8');
+export async function writeFile(
+	filePath: string,
+	content: string,
+	journal?: RunJournal | null
+): Promise<void> {
+	const resolved = path.resolve(filePath);
+	const target = await fs.realpath(resolved).catch(() => resolved);
+	const state = readStates.get(resolved);
+	const stats = await fs.stat(target).catch(() => null);
+
+	if (state && (!stats || stats.mtimeMs !== state.mtimeMs || stats.size !== state.size)) {
+		const current = stats ? await fs.readFile(target) : null;
+		if (!current || hashBuffer(current) !== state.hash) {
+			throw new FileChangedError(filePath);
+		}
+	}
+
+	const output = state?.bom && !content.startsWith(BOM) ? BOM + content : content;
+	const snapshot = journal ? await journal.snapshot(target) : null;
+
+	const temporary = path.join(
+		path.dirname(target),
+		`.${path.basename(target)}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`
+	);
+	try {
+		await fs.writeFile(temporary, output, 'utf-8');
+		if (stats) {
+			await fs.chmod(temporary, stats.mode & 0o7777);
+		}
+		await fs.rename(temporary, target);
+	} catch (error) {
+		await fs.rm(temporary, { force: true });
+		throw error;
+	}
+
+	if (journal && snapshot) {
+		await journal.record(snapshot, output);
+	}
+
+	const written = await fs.stat(target);
+	readStates.set(resolved, {
+		mtimeMs: written.mtimeMs,
+		size: written.size,
+		hash: hashBuffer(Buffer.from(output, 'utf-8')),
+		bom: output.startsWith(BOM)
+	});
 }
 
 export function getFileExtension(filePath: string): string {
@@ -100,3 +183,16 @@ export function detectVersionControl(startPath: string = process.cwd()): {
 
 	return { detected: false };
 }
+
+function hashBuffer(buffer: Buffer): string {
+	return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+function toRealPath(filePath: string): string {
+	const resolved = path.resolve(filePath);
+	try {
+		return fssync.realpathSync(resolved);
+	} catch {
+		return resolved;
+	}
+}
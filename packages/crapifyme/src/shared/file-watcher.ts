@@ -0,0 +1,128 @@
+import chokidar, { FSWatcher } from 'chokidar';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { minimatch } from 'minimatch';
+import path from 'path';
+import { getIgnorePatterns } from './ignore-patterns';
+import { Logger } from './logger';
+import { ExitCode } from './types';
+
+export interface FileWatcherOptions {
+	paths: string[];
+	extensions: string[];
+	exclude?: string[];
+	debounceMs?: number;
+	logger?: Logger;
+}
+
+export type FileChangeHandler = (filePath: string) => Promise<void> | void;
+
+export class FileWatcher {
+	private readonly options: FileWatcherOptions;
+	private readonly handler: FileChangeHandler;
+	private readonly logger: Logger;
+	private watcher?: FSWatcher;
+	private timers = new Map<string, NodeJS.Timeout>();
+	private ownWrites = new Map<string, string>();
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(options: FileWatcherOptions, handler: FileChangeHandler) {
+		this.options = { debounceMs: 100, exclude: [], ...options };
+		this.handler = handler;
+		this.logger = options.logger || new Logger(false, false, false);
+	}
+
+	async start(): Promise<void> {
+		const extensions = new Set(this.options.extensions.map(ext => ext.replace(/^\./, '')));
+		const ignorePatterns = getIgnorePatterns(this.options.exclude).flatMap(pattern =>
+			pattern.endsWith('/**') ? [pattern, pattern.slice(0, -3)] : [pattern]
+		);
+
+		this.watcher = chokidar.watch(
+			this.options.paths.map(p => path.resolve(p)),
+			{
+				ignoreInitial: true,
+				ignored: (filePath: string, stats?: { isFile(): boolean }) => {
+					const relativePath = path.relative(process.cwd(), filePath).split(path.sep).join('/');
+					if (
+						relativePath &&
+						ignorePatterns.some(pattern => minimatch(relativePath, pattern, { dot: true }))
+					) {
+						return true;
+					}
+					return !!stats?.isFile() && !extensions.has(path.extname(filePath).slice(1));
+				}
+			}
+		);
+
+		this.watcher.on('add', filePath => this.schedule(filePath));
+		this.watcher.on('change', filePath => this.schedule(filePath));
+		this.watcher.on('error', error => this.logger.error('File watcher error', error as Error));
+
+		await new Promise<void>(resolve => this.watcher!.once('ready', () => resolve()));
+	}
+
+	markWritten(filePath: string, content: string): void {
+		this.ownWrites.set(path.resolve(filePath), hashContent(content));
+	}
+
+	async close(): Promise<void> {
+		for (const timer of this.timers.values()) {
+			clearTimeout(timer);
+		}
+		this.timers.clear();
+
+		if (this.watcher) {
+			await this.watcher.close();
+			this.watcher = undefined;
+		}
+
+		await this.queue;
+	}
+
+	private schedule(filePath: string): void {
+		const resolved = path.resolve(filePath);
+		const existing = this.timers.get(resolved);
+		if (existing) {
+			clearTimeout(existing);
+		}
+
+		this.timers.set(
+			resolved,
+			setTimeout(() => {
+				this.timers.delete(resolved);
+				this.queue = this.queue.then(() => this.dispatch(resolved));
+			}, this.options.debounceMs)
+		);
+	}
+
+	private async dispatch(filePath: string): Promise<void> {
+		try {
+			const writtenHash = this.ownWrites.get(filePath);
+			if (writtenHash !== undefined) {
+				this.ownWrites.delete(filePath);
+				const content = await fs.readFile(filePath, 'utf-8');
+				if (hashContent(content) === writtenHash) {
+					return;
+				}
+			}
+
+			await this.handler(filePath);
+		} catch (error) {
+			this.logger.error(`Failed to process ${filePath}`, error as Error);
+		}
+	}
+}
+
+export function watchUntilInterrupted(watcher: FileWatcher, logger: Logger): void {
+	logger.info('Watching for changes... (press Ctrl+C to stop)');
+
+	process.once('SIGINT', async () => {
+		await watcher.close();
+		process.exit(ExitCode.Success);
+	});
+}
+
+function hashContent(content: string): string {
+	return crypto.createHash('sha1').update(content).digest('hex');
+}
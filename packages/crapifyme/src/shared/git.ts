@@ -0,0 +1,259 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import { LineRange } from './types';
+
+const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+export interface GitScopeOptions {
+	staged?: boolean;
+	changedSince?: string;
+	sinceLastCommit?: boolean;
+}
+
+export class GitError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'GitError';
+	}
+}
+
+export function runGit(args: string[], cwd: string = process.cwd()): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(
+			'git',
+			args,
+			{ cwd, maxBuffer: 64 * 1024 * 1024, env: { ...process.env, GIT_OPTIONAL_LOCKS: '0' } },
+			(error, stdout, stderr) => {
+				if (!error) {
+					resolve(stdout);
+					return;
+				}
+
+				if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+					reject(new GitError('git executable not found in PATH'));
+					return;
+				}
+
+				const message = stderr.trim().split('\n')[0] || error.message;
+				reject(new GitError(`git ${args[0]} failed: ${message}`));
+			}
+		);
+	});
+}
+
+export async function getGitRoot(cwd: string = process.cwd()): Promise<string> {
+	try {
+		return (await runGit(['rev-parse', '--show-toplevel'], cwd)).trim();
+	} catch (error) {
+		if (error instanceof GitError && error.message.includes('not found')) {
+			throw error;
+		}
+		throw new GitError(`Not inside a git repository: ${path.resolve(cwd)}`);
+	}
+}
+
+export async function getStagedFiles(cwd: string = process.cwd()): Promise<string[]> {
+	const root = await getGitRoot(cwd);
+	const output = await runGit(
+		['diff', '--cached', '--name-only', '-z', '--diff-filter=ACMR', '--no-renames'],
+		root
+	);
+	return toAbsolutePaths(root, output);
+}
+
+export async function getChangedFilesSince(
+	ref: string,
+	cwd: string = process.cwd()
+): Promise<string[]> {
+	const root = await getGitRoot(cwd);
+	await resolveCommit(ref, root);
+
+	const changed = await runGit(
+		['diff', '--name-only', '-z', '--diff-filter=ACMR', '--no-renames', ref, '--'],
+		root
+	);
+	const untracked = await getUntrackedFiles(root);
+
+	return [...new Set([...toAbsolutePaths(root, changed), ...untracked])];
+}
+
+export async function getFilesSinceLastCommit(cwd: string = process.cwd()): Promise<string[]> {
+	const root = await getGitRoot(cwd);
+	const base = (await hasCommit('HEAD', root)) ? 'HEAD' : EMPTY_TREE_HASH;
+
+	const changed = await runGit(
+		['diff', '--name-only', '-z', '--diff-filter=ACMR', '--no-renames', base, '--'],
+		root
+	);
+	const untracked = await getUntrackedFiles(root);
+
+	return [...new Set([...toAbsolutePaths(root, changed), ...untracked])];
+}
+
+export async function getUntrackedFiles(cwd: string = process.cwd()): Promise<string[]> {
+	const root = await getGitRoot(cwd);
+	const output = await runGit(
+		['ls-files', '--others', '--exclude-standard', '--full-name', '-z'],
+		root
+	);
+	return toAbsolutePaths(root, output);
+}
+
+export function hasGitScope(options: GitScopeOptions): boolean {
+	return Boolean(options.staged || options.changedSince || options.sinceLastCommit);
+}
+
+export async function getGitScopedFiles(
+	options: GitScopeOptions,
+	cwd: string = process.cwd()
+): Promise<string[] | null> {
+	assertSingleGitScope(options);
+
+	if (!hasGitScope(options)) {
+		return null;
+	}
+
+	if (options.staged) {
+		return getStagedFiles(cwd);
+	}
+
+	if (options.changedSince) {
+		return getChangedFilesSince(options.changedSince, cwd);
+	}
+
+	return getFilesSinceLastCommit(cwd);
+}
+
+export async function getChangedLineRanges(
+	options: GitScopeOptions,
+	cwd: string = process.cwd()
+): Promise<Map<string, LineRange[]>> {
+	assertSingleGitScope(options);
+
+	const root = await getGitRoot(cwd);
+	let base: string[];
+
+	if (options.staged) {
+		base = ['--cached'];
+	} else if (options.changedSince) {
+		await resolveCommit(options.changedSince, root);
+		base = [options.changedSince];
+	} else {
+		base = [(await hasCommit('HEAD', root)) ? 'HEAD' : EMPTY_TREE_HASH];
+	}
+
+	const output = await runGit(
+		[
+			'-c',
+			'core.quotePath=false',
+			'diff',
+			'-U0',
+			'--no-color',
+			'--no-ext-diff',
+			'--no-renames',
+			'--diff-filter=ACMR',
+			'--src-prefix=a/',
+			'--dst-prefix=b/',
+			...base,
+			'--'
+		],
+		root
+	);
+	const ranges = parseChangedLines(root, output);
+
+	if (options.staged) {
+		const unstaged = toAbsolutePaths(
+			root,
+			await runGit(['diff', '--name-only', '-z', '--no-renames'], root)
+		).filter(file => ranges.has(file));
+		if (unstaged.length > 0) {
+			throw new GitError(
+				`Cannot use staged line ranges while ${unstaged.map(file => path.relative(cwd, file)).join(', ')} ${unstaged.length === 1 ? 'has' : 'have'} unstaged changes; stage or stash them first`
+			);
+		}
+	} else {
+		for (const file of await getUntrackedFiles(root)) {
+			ranges.set(file, [{ start: 1, end: Number.POSITIVE_INFINITY }]);
+		}
+	}
+
+	return ranges;
+}
+
+export function parseChangedLines(root: string, diffOutput: string): Map<string, LineRange[]> {
+	const ranges = new Map<string, LineRange[]>();
+	let currentRanges: LineRange[] | null = null;
+
+	for (const line of diffOutput.split('\n')) {
+		if (line.startsWith('+++ ')) {
+			const target = unquotePath(line.slice(4));
+			if (target === '/dev/null') {
+				currentRanges = null;
+				continue;
+			}
+
+			const filePath = path.resolve(root, target.replace(/^b\//, ''));
+			currentRanges = ranges.get(filePath) || [];
+			ranges.set(filePath, currentRanges);
+			continue;
+		}
+
+		const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+		if (hunk && currentRanges) {
+			const start = parseInt(hunk[1], 10);
+			const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+			if (count > 0) {
+				currentRanges.push({ start, end: start + count - 1 });
+			}
+		}
+	}
+
+	return ranges;
+}
+
+function assertSingleGitScope(options: GitScopeOptions): void {
+	const selected = [
+		options.staged && '--staged',
+		options.changedSince && '--changed-since',
+		options.sinceLastCommit && '--since-last-commit'
+	].filter(Boolean);
+
+	if (selected.length > 1) {
+		throw new GitError(`Options ${selected.join(', ')} cannot be combined`);
+	}
+}
+
+function unquotePath(value: string): string {
+	const trimmed = value.replace(/\t$/, '');
+	if (!trimmed.startsWith('"')) {
+		return trimmed;
+	}
+
+	try {
+		return JSON.parse(trimmed);
+	} catch {
+		return trimmed.slice(1, -1);
+	}
+}
+
+async function resolveCommit(ref: string, cwd: string): Promise<void> {
+	if (!(await hasCommit(ref, cwd))) {
+		throw new GitError(`Unknown git revision: ${ref}`);
+	}
+}
+
+async function hasCommit(ref: string, cwd: string): Promise<boolean> {
+	try {
+		await runGit(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], cwd);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function toAbsolutePaths(root: string, output: string): string[] {
+	return output
+		.split('\0')
+		.filter(Boolean)
+		.map(file => path.resolve(root, file));
+}
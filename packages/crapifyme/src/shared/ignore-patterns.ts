@@ -26,7 +26,9 @@ export const DEFAULT_IGNORE_PATTERNS = [
 
 	'**/.git/**',
 	'**/.svn/**',
-	'**/.hg/**'
+	'**/.hg/**',
+
+	'**/.crapify/**'
 ] as const;
 
 export function getIgnorePatterns(userPatterns: string[] = []): string[] {
@@ -8,3 +8,19 @@ export * from './rule-manager';
 export * from './error-handler';
 export * from './enhanced-tokenizer';
 export * from './performance-monitor';
+export * from './config-loader';
+export * from './diff';
+export * from './file-watcher';
+export * from './git';
+export * from './line-ranges';
+export * from './source-map';
+export * from './reporter';
+export * from './thresholds';
+export * from './baseline';
+export * from './directives';
+export * from './sfc';
+export * from './languages';
+export * from './language-tokenizer';
+export * from './syntax-validator';
+export * from './semantic-verifier';
+export * from './journal';
@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export const JOURNAL_DIRECTORY = '.crapify';
+
+const MAX_RUNS = 20;
+
+export interface JournalEntry {
+	file: string;
+	before: string | null;
+	after: string;
+	mode?: number;
+}
+
+export interface JournalSnapshot {
+	file: string;
+	content: Buffer | null;
+	mode: number | null;
+}
+
+export interface JournalRun {
+	id: string;
+	command: string;
+	cwd: string;
+	startedAt: string;
+	undoneAt?: string;
+	files: JournalEntry[];
+}
+
+export interface UndoConflict {
+	file: string;
+	reason: string;
+}
+
+export class JournalError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'JournalError';
+	}
+}
+
+export class RunJournal {
+	private readonly root: string;
+	private readonly run: JournalRun;
+	private readonly entries = new Map<string, JournalEntry>();
+	private saving: Promise<void> = Promise.resolve();
+	private saved = false;
+
+	constructor(command: string, cwd: string = process.cwd()) {
+		this.root = path.join(cwd, JOURNAL_DIRECTORY);
+		this.run = {
+			id: createRunId(command),
+			command,
+			cwd,
+			startedAt: new Date().toISOString(),
+			files: []
+		};
+	}
+
+	get id(): string {
+		return this.run.id;
+	}
+
+	async snapshot(filePath: string): Promise<JournalSnapshot> {
+		const file = path.resolve(filePath);
+		const stats = await fs.stat(file).catch(() => null);
+		return {
+			file,
+			content: stats ? await readIfExists(file) : null,
+			mode: stats ? stats.mode & 0o7777 : null
+		};
+	}
+
+	async record(snapshot: JournalSnapshot, output: string | Buffer): Promise<void> {
+		const entry = this.entries.get(snapshot.file);
+
+		if (entry) {
+			entry.after = hashContent(output);
+		} else {
+			const before = snapshot.content ? hashContent(snapshot.content) : null;
+			if (snapshot.content && before) {
+				await storeBackup(this.root, before, snapshot.content);
+			}
+
+			const created: JournalEntry = { file: snapshot.file, before, after: hashContent(output) };
+			if (snapshot.mode !== null) {
+				created.mode = snapshot.mode;
+			}
+			this.entries.set(snapshot.file, created);
+			this.run.files.push(created);
+		}
+
+		await this.save();
+	}
+
+	private save(): Promise<void> {
+		this.saving = this.saving
+			.catch(() => undefined)
+			.then(async () => {
+				await writeRun(this.root, this.run);
+				if (!this.saved) {
+					this.saved = true;
+					await pruneRuns(this.root);
+				}
+			});
+		return this.saving;
+	}
+}
+
+export async function listRuns(cwd: string = process.cwd()): Promise<JournalRun[]> {
+	const runsDirectory = path.join(cwd, JOURNAL_DIRECTORY, 'runs');
+	let names: string[];
+	try {
+		names = await fs.readdir(runsDirectory);
+	} catch {
+		return [];
+	}
+
+	const runs: JournalRun[] = [];
+	for (const name of names.filter(name => name.endsWith('.json'))) {
+		try {
+			runs.push(JSON.parse(await fs.readFile(path.join(runsDirectory, name), 'utf-8')));
+		} catch {}
+	}
+
+	return runs.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export async function loadRun(runId?: string, cwd: string = process.cwd()): Promise<JournalRun> {
+	const runs = await listRuns(cwd);
+
+	if (!runId) {
+		const latest = runs.find(run => !run.undoneAt);
+		if (!latest) {
+			throw new JournalError(`No run to undo in ${path.join(cwd, JOURNAL_DIRECTORY)}`);
+		}
+		return latest;
+	}
+
+	const run = runs.find(candidate => candidate.id === runId);
+	if (!run) {
+		throw new JournalError(`Unknown run: ${runId}`);
+	}
+	if (run.undoneAt) {
+		throw new JournalError(`Run ${runId} was already undone at ${run.undoneAt}`);
+	}
+	return run;
+}
+
+export async function findUndoConflicts(
+	run: JournalRun,
+	cwd: string = process.cwd()
+): Promise<UndoConflict[]> {
+	const root = path.join(cwd, JOURNAL_DIRECTORY);
+	const conflicts: UndoConflict[] = [];
+
+	for (const entry of run.files) {
+		const current = await readIfExists(entry.file);
+		if (!current) {
+			conflicts.push({ file: entry.file, reason: 'deleted since the run' });
+		} else if (hashContent(current) !== entry.after) {
+			conflicts.push({ file: entry.file, reason: 'changed since the run' });
+		} else if (entry.before && !(await readIfExists(backupPath(root, entry.before)))) {
+			conflicts.push({ file: entry.file, reason: 'backup is missing' });
+		}
+	}
+
+	return conflicts;
+}
+
+export async function restoreRun(run: JournalRun, cwd: string = process.cwd()): Promise<void> {
+	const conflicts = await findUndoConflicts(run, cwd);
+	if (conflicts.length > 0) {
+		throw new JournalError(
+			`Refusing to undo ${run.id}: ${conflicts.map(conflict => `${conflict.file} (${conflict.reason})`).join(', ')}`
+		);
+	}
+
+	const root = path.join(cwd, JOURNAL_DIRECTORY);
+	for (const entry of [...run.files].reverse()) {
+		if (entry.before) {
+			await fs.copyFile(backupPath(root, entry.before), entry.file);
+			if (entry.mode !== undefined) {
+				await fs.chmod(entry.file, entry.mode);
+			}
+		} else {
+			await fs.rm(entry.file, { force: true });
+		}
+	}
+
+	await writeRun(root, { ...run, undoneAt: new Date().toISOString() });
+}
+
+function createRunId(command: string): string {
+	const timestamp = new Date()
+		.toISOString()
+		.replace(/[-:TZ]/g, '')
+		.replace('.', '');
+	return `${timestamp}-${command}-${crypto.randomBytes(2).toString('hex')}`;
+}
+
+function hashContent(content: string | Buffer): string {
+	return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function backupPath(root: string, hash: string): string {
+	return path.join(root, 'backups', hash);
+}
+
+async function readIfExists(filePath: string): Promise<Buffer | null> {
+	try {
+		return await fs.readFile(filePath);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return null;
+		}
+		throw error;
+	}
+}
+
+async function storeBackup(root: string, hash: string, content: Buffer): Promise<void> {
+	const target = backupPath(root, hash);
+	if (await readIfExists(target)) {
+		return;
+	}
+
+	await fs.mkdir(path.dirname(target), { recursive: true });
+	await fs.writeFile(target, content);
+}
+
+async function writeRun(root: string, run: JournalRun): Promise<void> {
+	await fs.mkdir(path.join(root, 'runs'), { recursive: true });
+	await fs.writeFile(path.join(root, '.gitignore'), '*\n', 'utf-8');
+	await fs.writeFile(
+		path.join(root, 'runs', `${run.id}.json`),
+		`${JSON.stringify(run, null, 2)}\n`,
+		'utf-8'
+	);
+}
+
+async function pruneRuns(root: string): Promise<void> {
+	const runs = await listRuns(path.dirname(root));
+	const expired = runs.slice(MAX_RUNS);
+	if (expired.length === 0) {
+		return;
+	}
+
+	for (const run of expired) {
+		await fs.rm(path.join(root, 'runs', `${run.id}.json`), { force: true });
+	}
+
+	const referenced = new Set(
+		runs.slice(0, MAX_RUNS).flatMap(run => run.files.map(entry => entry.before))
+	);
+	for (const name of await fs.readdir(path.join(root, 'backups')).catch(() => [])) {
+		if (!referenced.has(name)) {
+			await fs.rm(path.join(root, 'backups', name), { force: true });
+		}
+	}
+}
@@ -0,0 +1,102 @@
+import { LanguageTokenizer } from './language-tokenizer';
+import { getLanguageByExtension } from './languages';
+
+function tokenize(extension: string, content: string): string[] {
+	return new LanguageTokenizer(getLanguageByExtension(extension)!)
+		.tokenize(content)
+		.filter(token => token.type !== 'code')
+		.map(token => `${token.type}:${token.value}`);
+}
+
+describe('LanguageTokenizer', () => {
+	describe('shell heredocs', () => {
+		it('treats heredoc bodies as strings', () => {
+			expect(tokenize('sh', 'cat <<EOF\n# not a comment\nEOF\n# comment\n')).toEqual([
+				'string:# not a comment\nEOF',
+				'comment:# comment'
+			]);
+		});
+
+		it('accepts quoted delimiters and tab-indented terminators', () => {
+			expect(tokenize('sh', "cat <<-'END'\n\t# body\n\tEND\necho # done\n")).toEqual([
+				'string:\t# body\n\tEND',
+				'comment:# done'
+			]);
+		});
+
+		it('reads stacked heredocs in order', () => {
+			expect(tokenize('sh', 'cmd <<A <<B\n# a\nA\n# b\nB\n# after\n')).toEqual([
+				'string:# a\nA\n# b\nB',
+				'comment:# after'
+			]);
+		});
+
+		it('does not mistake a hash inside a word for a comment', () => {
+			expect(tokenize('sh', 'echo a#b ${#x} # real\n')).toEqual(['comment:# real']);
+		});
+	});
+
+	describe('Rust raw strings', () => {
+		it('keeps comment markers inside raw strings', () => {
+			expect(tokenize('rs', 'let s = r#"// "quoted" /* x */"#; // note\n')).toEqual([
+				'string:r#"// "quoted" /* x */"#',
+				'comment:// note'
+			]);
+		});
+
+		it('reads byte raw strings and char literals', () => {
+			expect(tokenize('rs', 'let b = br"//"; let c = \'"\'; // note\n')).toEqual([
+				'string:br"//"',
+				"string:'\"'",
+				'comment:// note'
+			]);
+		});
+
+		it('does not treat lifetimes as char literals', () => {
+			expect(tokenize('rs', "fn f<'a>(x: &'a str) {} /* done */\n")).toEqual([
+				'comment:/* done */'
+			]);
+		});
+
+		it('nests block comments', () => {
+			expect(tokenize('rs', '/* a /* b */ c */ x\n')).toEqual(['comment:/* a /* b */ c */']);
+		});
+	});
+
+	describe('YAML block scalars', () => {
+		it('treats literal block content as a string', () => {
+			expect(tokenize('yaml', 'script: |\n  # keep\n  run\nnext: 1 # note\n')).toEqual([
+				'string:  # keep\n  run',
+				'comment:# note'
+			]);
+		});
+
+		it('reads folded scalars with indicators in sequences', () => {
+			expect(tokenize('yaml', '- >-\n  # keep\n\n  more\n# note\n')).toEqual([
+				'string:  # keep\n\n  more',
+				'comment:# note'
+			]);
+		});
+
+		it('ends the block at the parent mapping indentation', () => {
+			expect(tokenize('yaml', '- run: |\n    # keep\n  # note\n')).toEqual([
+				'string:    # keep',
+				'comment:# note'
+			]);
+		});
+
+		it('allows a comment after the block indicator', () => {
+			expect(tokenize('yaml', 'a: | # header\n  # body\n')).toEqual([
+				'comment:# header',
+				'string:  # body'
+			]);
+		});
+
+		it('does not treat a hash inside a value as a comment', () => {
+			expect(tokenize('yaml', 'url: http://x/#anchor\ncolor: "#fff" # note\n')).toEqual([
+				'string:"#fff"',
+				'comment:# note'
+			]);
+		});
+	});
+});
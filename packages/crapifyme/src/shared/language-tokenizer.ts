@@ -0,0 +1,265 @@
+import { LanguageDefinition, StringRule } from './languages';
+import { CommentPattern, EnhancedToken } from './types';
+
+const HEREDOC_PATTERN = /<<(-?)[ \t]*(['"]?)([A-Za-z_][\w-]*)\2/y;
+const RAW_STRING_PATTERN = /b?r(#*)"/y;
+const CHAR_LITERAL_PATTERN = /'(?:\\(?:x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]{1,6}\}|.)|[^\\'\r\n])'/y;
+const DOLLAR_QUOTE_PATTERN = /\$(?:[A-Za-z_]\w*)?\$/y;
+const BLOCK_SCALAR_PATTERN = /[|>](?:[1-9]?[+-]?|[+-][1-9])[ \t]*(?=#|\r?\n|$)/y;
+const BLOCK_SCALAR_PREFIX = /(?:^|[-:?])[ \t]+$|^[ \t]*$/;
+
+interface PendingHeredoc {
+	delimiter: string;
+	indented: boolean;
+}
+
+export class LanguageTokenizer {
+	private readonly language: LanguageDefinition;
+	private content: string = '';
+	private tokens: EnhancedToken[] = [];
+	private codeStart: number = 0;
+	private heredocs: PendingHeredoc[] = [];
+	private blockScalarIndent: number | null = null;
+
+	constructor(language: LanguageDefinition) {
+		this.language = language;
+	}
+
+	tokenize(content: string): EnhancedToken[] {
+		this.content = content;
+		this.tokens = [];
+		this.codeStart = 0;
+		this.heredocs = [];
+		this.blockScalarIndent = null;
+
+		let position = 0;
+		while (position < content.length) {
+			position = this.readToken(position) ?? position + 1;
+		}
+		this.flushCode(content.length);
+
+		return this.tokens;
+	}
+
+	private readToken(start: number): number | null {
+		const char = this.content[start];
+
+		if (char === '\n' && (this.heredocs.length > 0 || this.blockScalarIndent !== null)) {
+			return this.readBodyLines(start + 1);
+		}
+
+		const comment = this.matchComment(start);
+		if (comment) {
+			return this.push('comment', start, this.findCommentEnd(start, comment));
+		}
+
+		const language = this.language;
+		const previous = this.content[start - 1] || '';
+
+		if (language.rawStrings && (char === 'r' || char === 'b') && !/[\w]/.test(previous)) {
+			const match = this.matchSticky(RAW_STRING_PATTERN, start);
+			if (match) {
+				const close = `"${match[1]}`;
+				return this.push('string', start, this.indexAfter(close, start + match[0].length));
+			}
+		}
+
+		if (language.charLiterals && char === "'") {
+			const match = this.matchSticky(CHAR_LITERAL_PATTERN, start);
+			return match ? this.push('string', start, start + match[0].length) : null;
+		}
+
+		if (language.dollarQuotes && char === '$' && !/[\w$]/.test(previous)) {
+			const match = this.matchSticky(DOLLAR_QUOTE_PATTERN, start);
+			if (match) {
+				return this.push('string', start, this.indexAfter(match[0], start + match[0].length));
+			}
+		}
+
+		if (language.heredocs && char === '<' && previous !== '<') {
+			const match = this.matchSticky(HEREDOC_PATTERN, start);
+			if (match) {
+				this.heredocs.push({ delimiter: match[3], indented: match[1] === '-' });
+				return start + match[0].length;
+			}
+		}
+
+		if (
+			language.blockScalars &&
+			(char === '|' || char === '>') &&
+			BLOCK_SCALAR_PREFIX.test(this.lineBefore(start)) &&
+			this.matchSticky(BLOCK_SCALAR_PATTERN, start)
+		) {
+			const prefix = this.lineBefore(start);
+			const indent = prefix.match(/^[ \t]*(?:-[ \t]+)*/)![0];
+			const dash = indent.lastIndexOf('-');
+			this.blockScalarIndent =
+				indent.length === prefix.length && dash !== -1 ? dash : indent.length;
+			return start + 1;
+		}
+
+		const rule = this.matchString(start);
+		return rule ? this.push('string', start, this.findStringEnd(start, rule)) : null;
+	}
+
+	private readBodyLines(start: number): number {
+		let end = start;
+
+		if (this.heredocs.length > 0) {
+			let position = start;
+			for (const heredoc of this.heredocs) {
+				while (position <= this.content.length) {
+					const lineEnd = this.lineEnd(position);
+					const line = this.content.slice(position, lineEnd).replace(/\r$/, '');
+					end = lineEnd;
+					position = lineEnd + 1;
+					if ((heredoc.indented ? line.replace(/^\t+/, '') : line) === heredoc.delimiter) {
+						break;
+					}
+				}
+			}
+			this.heredocs = [];
+		} else {
+			let position = start;
+			while (position < this.content.length) {
+				const lineEnd = this.lineEnd(position);
+				const line = this.content.slice(position, lineEnd);
+				if (line.trim() && line.match(/^[ \t]*/)![0].length <= this.blockScalarIndent!) {
+					break;
+				}
+				if (line.trim()) {
+					end = lineEnd;
+				}
+				position = lineEnd + 1;
+			}
+			this.blockScalarIndent = null;
+		}
+
+		return end > start ? this.push('string', start, end) : start;
+	}
+
+	private matchComment(start: number): CommentPattern | null {
+		const boundary = this.language.commentBoundary;
+		for (const pattern of this.language.comments) {
+			if (this.matchLength(pattern.start, start) > 0) {
+				return boundary && !boundary.test(this.lineBefore(start)) ? null : pattern;
+			}
+		}
+		return null;
+	}
+
+	private findCommentEnd(start: number, pattern: CommentPattern): number {
+		if (!pattern.end) {
+			return this.lineEnd(start);
+		}
+
+		let depth = 0;
+		let position = start;
+		while (position < this.content.length) {
+			const open = this.matchLength(pattern.start, position);
+			if (open > 0 && (depth === 0 || this.language.nestedComments)) {
+				depth++;
+				position += open;
+				continue;
+			}
+
+			const close = this.matchLength(pattern.end, position);
+			if (close > 0) {
+				position += close;
+				if (--depth === 0) {
+					return position;
+				}
+				continue;
+			}
+
+			position++;
+		}
+
+		return this.content.length;
+	}
+
+	private matchString(start: number): StringRule | null {
+		const boundary = this.language.stringBoundary;
+		const rule = this.language.strings.find(candidate =>
+			this.content.startsWith(candidate.open, start)
+		);
+		if (!rule || (boundary && !boundary.test(this.lineBefore(start)))) {
+			return null;
+		}
+		return rule;
+	}
+
+	private findStringEnd(start: number, rule: StringRule): number {
+		let position = start + rule.open.length;
+
+		while (position < this.content.length) {
+			const char = this.content[position];
+			if (rule.escape && char === '\\') {
+				position += 2;
+			} else if (this.content.startsWith(rule.close, position)) {
+				return position + rule.close.length;
+			} else if (char === '\n' && !rule.multiline) {
+				return position;
+			} else {
+				position++;
+			}
+		}
+
+		return this.content.length;
+	}
+
+	private push(type: 'string' | 'comment', start: number, end: number): number {
+		this.flushCode(start);
+		this.tokens.push({
+			type,
+			value: this.content.slice(start, end),
+			context: { type },
+			startPos: start,
+			endPos: end
+		});
+		this.codeStart = end;
+		return end;
+	}
+
+	private flushCode(end: number): void {
+		if (end > this.codeStart) {
+			this.tokens.push({
+				type: 'code',
+				value: this.content.slice(this.codeStart, end),
+				context: { type: 'code' },
+				startPos: this.codeStart,
+				endPos: end
+			});
+			this.codeStart = end;
+		}
+	}
+
+	private matchLength(pattern: string | RegExp, position: number): number {
+		if (typeof pattern === 'string') {
+			return this.content.startsWith(pattern, position) ? pattern.length : 0;
+		}
+
+		const match = this.matchSticky(pattern, position);
+		return match ? match[0].length : 0;
+	}
+
+	private matchSticky(pattern: RegExp, position: number): RegExpExecArray | null {
+		const sticky = pattern.sticky ? pattern : new RegExp(pattern.source, `${pattern.flags}y`);
+		sticky.lastIndex = position;
+		return sticky.exec(this.content);
+	}
+
+	private indexAfter(search: string, from: number): number {
+		const index = this.content.indexOf(search, from);
+		return index === -1 ? this.content.length : index + search.length;
+	}
+
+	private lineBefore(position: number): string {
+		return this.content.slice(this.content.lastIndexOf('\n', position - 1) + 1, position);
+	}
+
+	private lineEnd(position: number): number {
+		const index = this.content.indexOf('\n', position);
+		return index === -1 ? this.content.length : index;
+	}
+}
@@ -0,0 +1,166 @@
+import path from 'path';
+import { CommentPattern } from './types';
+
+export interface StringRule {
+	open: string;
+	close: string;
+	escape?: boolean;
+	multiline?: boolean;
+}
+
+export interface LanguageDefinition {
+	name: string;
+	extensions: string[];
+	comments: CommentPattern[];
+	strings: StringRule[];
+	nestedComments?: boolean;
+	commentBoundary?: RegExp;
+	stringBoundary?: RegExp;
+	heredocs?: boolean;
+	rawStrings?: boolean;
+	charLiterals?: boolean;
+	dollarQuotes?: boolean;
+	blockScalars?: boolean;
+	directives?: RegExp[];
+	headerComments?: RegExp[];
+}
+
+const HASH_COMMENT: CommentPattern = { start: '#' };
+const LINE_COMMENT: CommentPattern = { start: '//' };
+const BLOCK_COMMENT: CommentPattern = { start: '/*', end: '*/' };
+
+const QUOTED_STRINGS: StringRule[] = [
+	{ open: '"', close: '"', escape: true },
+	{ open: "'", close: "'", escape: true }
+];
+
+export const LANGUAGES: LanguageDefinition[] = [
+	{
+		name: 'Python',
+		extensions: ['py', 'pyw', 'pyi'],
+		comments: [HASH_COMMENT],
+		strings: [
+			{ open: '"""', close: '"""', escape: true, multiline: true },
+			{ open: "'''", close: "'''", escape: true, multiline: true },
+			...QUOTED_STRINGS
+		],
+		headerComments: [/^#.*?coding[:=]\s*[-\w.]+/]
+	},
+	{
+		name: 'Shell',
+		extensions: ['sh', 'bash', 'zsh', 'ksh', 'fish'],
+		comments: [HASH_COMMENT],
+		strings: [
+			{ open: "$'", close: "'", escape: true, multiline: true },
+			{ open: '"', close: '"', escape: true, multiline: true },
+			{ open: "'", close: "'", multiline: true }
+		],
+		commentBoundary: /(?:^|[\s;&|()])$/,
+		heredocs: true
+	},
+	{
+		name: 'YAML',
+		extensions: ['yaml', 'yml'],
+		comments: [HASH_COMMENT],
+		strings: [
+			{ open: '"', close: '"', escape: true, multiline: true },
+			{ open: "'", close: "'", multiline: true }
+		],
+		commentBoundary: /(?:^|\s)$/,
+		stringBoundary: /(?:^|[-:?]\s|[[{,])\s*$/,
+		blockScalars: true,
+		directives: [/^#\s*yaml-language-server:/]
+	},
+	{
+		name: 'TOML',
+		extensions: ['toml'],
+		comments: [HASH_COMMENT],
+		strings: [
+			{ open: '"""', close: '"""', escape: true, multiline: true },
+			{ open: "'''", close: "'''", multiline: true },
+			{ open: '"', close: '"', escape: true },
+			{ open: "'", close: "'" }
+		]
+	},
+	{
+		name: 'SQL',
+		extensions: ['sql'],
+		comments: [{ start: '--' }, BLOCK_COMMENT],
+		strings: [
+			{ open: "'", close: "'", multiline: true },
+			{ open: '"', close: '"' },
+			{ open: '`', close: '`' }
+		],
+		dollarQuotes: true
+	},
+	{
+		name: 'Go',
+		extensions: ['go'],
+		comments: [LINE_COMMENT, BLOCK_COMMENT],
+		strings: [...QUOTED_STRINGS, { open: '`', close: '`', multiline: true }],
+		directives: [/^\/\/(?:go:|line |export |extern )/, /^\/\/\s*\+build\b/]
+	},
+	{
+		name: 'Rust',
+		extensions: ['rs'],
+		comments: [LINE_COMMENT, BLOCK_COMMENT],
+		strings: [{ open: '"', close: '"', escape: true, multiline: true }],
+		nestedComments: true,
+		rawStrings: true,
+		charLiterals: true
+	},
+	{
+		name: 'Ruby',
+		extensions: ['rb'],
+		comments: [HASH_COMMENT],
+		strings: QUOTED_STRINGS,
+		headerComments: [/^#.*?coding[:=]\s*[-\w.]+/, /^#\s*frozen_string_literal:/]
+	},
+	{
+		name: 'Perl',
+		extensions: ['pl', 'pm'],
+		comments: [HASH_COMMENT],
+		strings: QUOTED_STRINGS,
+		commentBoundary: /(?:^|[^$])$/
+	},
+	{
+		name: 'Config',
+		extensions: ['conf', 'env'],
+		comments: [HASH_COMMENT],
+		strings: QUOTED_STRINGS,
+		commentBoundary: /(?:^|\s)$/
+	}
+];
+
+const LANGUAGES_BY_EXTENSION = new Map(
+	LANGUAGES.flatMap(language =>
+		language.extensions.map(extension => [extension, language] as const)
+	)
+);
+
+export function getLanguageByExtension(extension: string): LanguageDefinition | null {
+	return LANGUAGES_BY_EXTENSION.get(extension.toLowerCase()) || null;
+}
+
+export function getLanguage(filePath: string): LanguageDefinition | null {
+	return getLanguageByExtension(path.extname(filePath).slice(1));
+}
+
+export function isLanguageDirective(
+	language: LanguageDefinition,
+	content: string,
+	comment: { value: string; startPos: number }
+): boolean {
+	if (comment.startPos === 0 && comment.value.startsWith('#!')) {
+		return true;
+	}
+
+	if (language.directives?.some(pattern => pattern.test(comment.value))) {
+		return true;
+	}
+
+	return (
+		language.headerComments?.some(pattern => pattern.test(comment.value)) === true &&
+		content.slice(0, comment.startPos).split('\n').length <= 2
+	);
+}
@@ -0,0 +1,73 @@
+import { LineRange } from './types';
+
+export class LineRangeFilter {
+	private readonly ranges: LineRange[];
+	private readonly lineStarts: number[];
+
+	constructor(content: string, ranges: LineRange[]) {
+		this.ranges = mergeLineRanges(ranges);
+		this.lineStarts = [0];
+		for (let i = 0; i < content.length; i++) {
+			if (content[i] === '\n') {
+				this.lineStarts.push(i + 1);
+			}
+		}
+	}
+
+	contains(content: string, startPos: number, endPos: number): boolean {
+		let end = endPos;
+		while (end > startPos && /\s/.test(content[end - 1])) {
+			end--;
+		}
+
+		const startLine = this.getLine(startPos);
+		const endLine = this.getLine(Math.max(startPos, end - 1));
+		return this.ranges.some(range => range.start <= startLine && endLine <= range.end);
+	}
+
+	getLine(position: number): number {
+		let low = 0;
+		let high = this.lineStarts.length - 1;
+
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			if (this.lineStarts[mid] <= position) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+
+		return low + 1;
+	}
+}
+
+export function mergeLineRanges(ranges: LineRange[]): LineRange[] {
+	const sorted = [...ranges].sort((a, b) => a.start - b.start);
+	const merged: LineRange[] = [];
+
+	for (const range of sorted) {
+		const last = merged[merged.length - 1];
+		if (last && range.start <= last.end + 1) {
+			last.end = Math.max(last.end, range.end);
+		} else {
+			merged.push({ ...range });
+		}
+	}
+
+	return merged;
+}
+
+export function getLineColumn(content: string, position: number): { line: number; column: number } {
+	let line = 1;
+	let lineStart = 0;
+
+	for (let i = 0; i < position && i < content.length; i++) {
+		if (content[i] === '\n') {
+			line++;
+			lineStart = i + 1;
+		}
+	}
+
+	return { line, column: position - lineStart + 1 };
+}
@@ -2,21 +2,23 @@ export class Logger {
 	constructor(
 		private verbose: boolean = false,
 		private quiet: boolean = false,
-		private jsonMode: boolean = false
+		private jsonMode: boolean = false,
+		private silent: boolean = false
 	) {}
 
 	info(message: string, data?: any): void {
-		if (this.quiet || this.jsonMode) return;
+		if (this.silent || this.quiet || this.jsonMode) return;
 		console.log('ℹ', message);
 		if (data && this.verbose) console.log(data);
 	}
 
 	success(message: string): void {
-		if (this.quiet || this.jsonMode) return;
+		if (this.silent || this.quiet || this.jsonMode) return;
 		console.log('✔', message);
 	}
 
 	error(message: string, error?: Error): void {
+		if (this.silent) return;
 		if (this.jsonMode) {
 			console.log(JSON.stringify({ error: message, details: error?.message }));
 		} else {
@@ -26,12 +28,12 @@ export class Logger {
 	}
 
 	warn(message: string): void {
-		if (this.quiet || this.jsonMode) return;
+		if (this.silent || this.quiet || this.jsonMode) return;
 		console.log('⚠', message);
 	}
 
 	json(data: any): void {
-		if (this.jsonMode) {
+		if (this.jsonMode && !this.silent) {
 			console.log(JSON.stringify(data, null, 2));
 		}
 	}
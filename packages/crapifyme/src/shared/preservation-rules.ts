@@ -109,6 +109,19 @@ export class DocumentationPreservationRule extends BasePreservationRule {
 	}
 }
 
+export class DirectivePreservationRule extends BasePreservationRule {
+	constructor(name: string, pattern: RegExp, priority: number, description: string) {
+		super(name, pattern, priority, description, CommentCategory.DIRECTIVE);
+	}
+
+	extractMetadata(comment: string): Record<string, any> {
+		return {
+			directive: comment.match(this.pattern)?.[0],
+			category: this.category
+		};
+	}
+}
+
 export class CustomPreservationRule extends BasePreservationRule {
 	public readonly userPattern: string;
 
@@ -0,0 +1,290 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getLineColumn } from './line-ranges';
+import { TextEdit } from './types';
+
+const pkg = require('../../package.json');
+
+export type FindingLevel = 'error' | 'warning' | 'note';
+
+export interface ReportRule {
+	id: string;
+	description: string;
+}
+
+export interface ReportFinding {
+	ruleId: string;
+	message: string;
+	level: FindingLevel;
+	file: string;
+	line?: number;
+	column?: number;
+	endLine?: number;
+	endColumn?: number;
+}
+
+export interface Report {
+	command: string;
+	cwd: string;
+	files: string[];
+	rules: ReportRule[];
+	findings: ReportFinding[];
+}
+
+export interface ReportFormat {
+	extension: string;
+	render(report: Report): string;
+}
+
+export interface ReporterOptions {
+	command: string;
+	outputFile?: string;
+	cwd?: string;
+}
+
+export class ReporterError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ReporterError';
+	}
+}
+
+export class Reporter {
+	private readonly format: ReportFormat;
+	private readonly options: ReporterOptions;
+	private readonly cwd: string;
+	private rules = new Map<string, ReportRule>();
+	private findings: ReportFinding[] = [];
+	private files = new Set<string>();
+
+	constructor(format: ReportFormat, options: ReporterOptions) {
+		this.format = format;
+		this.options = options;
+		this.cwd = path.resolve(options.cwd || process.cwd());
+	}
+
+	get outputPath(): string {
+		return path.resolve(
+			this.cwd,
+			this.options.outputFile || `crapifyme-${this.options.command}.${this.format.extension}`
+		);
+	}
+
+	addRule(rule: ReportRule): void {
+		if (!this.rules.has(rule.id)) {
+			this.rules.set(rule.id, rule);
+		}
+	}
+
+	addFile(file: string): void {
+		this.files.add(this.toRelativePath(file));
+	}
+
+	addFinding(finding: ReportFinding, rule?: ReportRule): void {
+		this.addRule(rule || { id: finding.ruleId, description: finding.ruleId });
+		const file = this.toRelativePath(finding.file);
+		this.files.add(file);
+		this.findings.push({ ...finding, file });
+	}
+
+	getFindings(): ReportFinding[] {
+		return [...this.findings];
+	}
+
+	render(): string {
+		return this.format.render({
+			command: this.options.command,
+			cwd: this.cwd,
+			files: [...this.files],
+			rules: [...this.rules.values()],
+			findings: this.getFindings()
+		});
+	}
+
+	async save(): Promise<string> {
+		const outputPath = this.outputPath;
+		await fs.mkdir(path.dirname(outputPath), { recursive: true });
+		await fs.writeFile(outputPath, this.render(), 'utf-8');
+		return outputPath;
+	}
+
+	private toRelativePath(file: string): string {
+		const relative = path.relative(this.cwd, path.resolve(this.cwd, file));
+		return relative.split(path.sep).join('/');
+	}
+}
+
+export function createEditFindings(
+	file: string,
+	content: string,
+	edits: TextEdit[],
+	rule: ReportRule,
+	describe: (text: string) => string
+): ReportFinding[] {
+	return edits
+		.filter(edit => edit.end > edit.start)
+		.map(edit => {
+			let end = edit.end;
+			while (end > edit.start && /\s/.test(content[end - 1])) {
+				end--;
+			}
+
+			const start = getLineColumn(content, edit.start);
+			const finish = getLineColumn(content, end);
+			const text = content.slice(edit.start, end).trim().split('\n')[0];
+
+			return {
+				ruleId: rule.id,
+				message: describe(text.length > 80 ? `${text.slice(0, 77)}...` : text),
+				level: 'warning' as const,
+				file,
+				line: start.line,
+				column: start.column,
+				endLine: finish.line,
+				endColumn: finish.column
+			};
+		});
+}
+
+const reportFormats = new Map<string, ReportFormat>([
+	['sarif', { extension: 'sarif', render: renderSarif }],
+	['junit', { extension: 'xml', render: renderJunit }]
+]);
+
+export function registerReportFormat(name: string, format: ReportFormat): void {
+	reportFormats.set(name.toLowerCase(), format);
+}
+
+export function getReportFormats(): string[] {
+	return [...reportFormats.keys()];
+}
+
+export function createReporter(
+	options: { reporter?: string; reporterOutput?: string },
+	command: string
+): Reporter | null {
+	if (!options.reporter) {
+		return null;
+	}
+
+	const format = reportFormats.get(options.reporter.toLowerCase());
+	if (!format) {
+		throw new ReporterError(
+			`Unknown reporter "${options.reporter}". Available reporters: ${getReportFormats().join(', ')}`
+		);
+	}
+
+	return new Reporter(format, { command, outputFile: options.reporterOutput });
+}
+
+function renderSarif(report: Report): string {
+	const rules = report.rules;
+	const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+
+	const sarif = {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: 'crapifyme',
+						version: pkg.version,
+						informationUri: 'https://crapify.me',
+						rules: rules.map(rule => ({
+							id: rule.id,
+							shortDescription: { text: rule.description }
+						}))
+					}
+				},
+				originalUriBaseIds: {
+					SRCROOT: { uri: `${pathToFileUri(report.cwd)}/` }
+				},
+				results: report.findings.map(finding => ({
+					ruleId: finding.ruleId,
+					ruleIndex: ruleIndex.get(finding.ruleId),
+					level: finding.level,
+					message: { text: finding.message },
+					locations: [
+						{
+							physicalLocation: {
+								artifactLocation: { uri: encodeURI(finding.file), uriBaseId: 'SRCROOT' },
+								...(finding.line !== undefined && {
+									region: {
+										startLine: finding.line,
+										...(finding.column !== undefined && { startColumn: finding.column }),
+										...(finding.endLine !== undefined && { endLine: finding.endLine }),
+										...(finding.endColumn !== undefined && { endColumn: finding.endColumn })
+									}
+								})
+							}
+						}
+					]
+				}))
+			}
+		]
+	};
+
+	return `${JSON.stringify(sarif, null, 2)}\n`;
+}
+
+function renderJunit(report: Report): string {
+	const byFile = new Map<string, ReportFinding[]>();
+	for (const file of report.files) {
+		byFile.set(file, []);
+	}
+	for (const finding of report.findings) {
+		byFile.get(finding.file)!.push(finding);
+	}
+
+	const suiteName = `crapifyme ${report.command}`;
+	const failures = [...byFile.values()].filter(findings => findings.length > 0).length;
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<testsuites name="crapifyme" tests="${byFile.size}" failures="${failures}" errors="0">`,
+		`  <testsuite name="${escapeXml(suiteName)}" tests="${byFile.size}" failures="${failures}" errors="0" skipped="0">`
+	];
+
+	for (const [file, findings] of byFile) {
+		const testcase = `    <testcase classname="crapifyme.${escapeXml(report.command)}" name="${escapeXml(file)}" file="${escapeXml(file)}"`;
+		if (findings.length === 0) {
+			lines.push(`${testcase} />`);
+			continue;
+		}
+
+		const details = findings
+			.map(finding => {
+				const location =
+					finding.line !== undefined
+						? `${finding.file}:${finding.line}${finding.column !== undefined ? `:${finding.column}` : ''}`
+						: finding.file;
+				return `${location} [${finding.level}] ${finding.ruleId}: ${finding.message}`;
+			})
+			.join('\n');
+		const summary = `${findings.length} finding${findings.length === 1 ? '' : 's'}`;
+
+		lines.push(`${testcase}>`);
+		lines.push(
+			`      <failure message="${escapeXml(summary)}" type="${escapeXml(findings[0].ruleId)}">${escapeXml(details)}</failure>`
+		);
+		lines.push('    </testcase>');
+	}
+
+	lines.push('  </testsuite>', '</testsuites>');
+	return `${lines.join('\n')}\n`;
+}
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;')
+		.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function pathToFileUri(filePath: string): string {
+	const normalized = filePath.split(path.sep).join('/');
+	return encodeURI(`file://${normalized.startsWith('/') ? '' : '/'}${normalized}`);
+}
@@ -4,8 +4,10 @@ import {
 	DevelopmentPreservationRule,
 	ToolingPreservationRule,
 	DocumentationPreservationRule,
+	DirectivePreservationRule,
 	CustomPreservationRule
 } from './preservation-rules';
+import { IGNORE_DIRECTIVE_PATTERN } from './directives';
 import { CommentCategory } from './types';
 
 export interface CommentClassification {
@@ -95,12 +97,24 @@ export class PreservationRuleManager {
 	}
 
 	private initializeDefaultRules(): void {
+		this.addDirectiveRules();
 		this.addFrameworkRules();
 		this.addDevelopmentRules();
 		this.addToolingRules();
 		this.addDocumentationRules();
 	}
 
+	private addDirectiveRules(): void {
+		this.addRule(
+			new DirectivePreservationRule(
+				'crapify-ignore',
+				IGNORE_DIRECTIVE_PATTERN,
+				1000,
+				'crapify-ignore suppression directives'
+			)
+		);
+	}
+
 	private addFrameworkRules(): void {
 		this.addRule(
 			new FrameworkPreservationRule(
@@ -198,6 +212,36 @@ export class PreservationRuleManager {
 			)
 		);
 
+		this.addRule(
+			new ToolingPreservationRule(
+				'python-tooling',
+				/#\s*(noqa\b|type:\s*ignore|pylint:|mypy:|pyright:|fmt:\s*(off|on|skip)|isort:|pragma:)/i,
+				800,
+				'Python linter, formatter and type checker comments',
+				'Python'
+			)
+		);
+
+		this.addRule(
+			new ToolingPreservationRule(
+				'shellcheck',
+				/#\s*shellcheck\s+(disable|enable|source|shell)=/i,
+				800,
+				'ShellCheck directives',
+				'ShellCheck'
+			)
+		);
+
+		this.addRule(
+			new ToolingPreservationRule(
+				'nolint',
+				/\/\/\s*nolint\b/i,
+				800,
+				'Go linter suppression comments',
+				'golangci-lint'
+			)
+		);
+
 		this.addRule(
 			new ToolingPreservationRule(
 				'coverage-ignore',
@@ -285,5 +329,14 @@ export class PreservationRuleManager {
 				'JSDoc comments with @ annotations'
 			)
 		);
+
+		this.addRule(
+			new DocumentationPreservationRule(
+				'doc-comments',
+				/^(\/\/[/!](?!\/)|\/\*!)/,
+				750,
+				'Rust-style doc comments (///, //!, /*!)'
+			)
+		);
 	}
 }
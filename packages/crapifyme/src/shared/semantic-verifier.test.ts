@@ -0,0 +1,98 @@
+import { AdvancedCommentRemover } from '../commands/comments/advanced-logic';
+import { LogsProcessor } from '../commands/logs/logic';
+import { Logger } from './logger';
+import { findSemanticDifference } from './semantic-verifier';
+
+function removeLogs(content: string, filePath: string, ast: boolean) {
+	const result = new LogsProcessor({ ast }).processFile(content, undefined, { source: filePath });
+	return {
+		output: result.content,
+		removedCalls: result.calls.filter(call => call.action === 'removed')
+	};
+}
+
+function removeComments(content: string, filePath: string): string {
+	return new AdvancedCommentRemover([], {
+		logger: new Logger(false, true, false, true)
+	}).removeComments(content, filePath).content;
+}
+
+describe('findSemanticDifference', () => {
+	describe.each([
+		['token mode', false],
+		['AST mode', true]
+	])('log removal in %s', (_, ast) => {
+		it('accepts outputs that only lost the removed calls', () => {
+			const content =
+				'const a = 1;\nconsole.log(a);\nif (a) console.warn(a);\nconst g = () => console.debug(a);\nfoo(a);\n';
+			const { output, removedCalls } = removeLogs(content, 'input.js', ast);
+
+			expect(output).not.toBe(content);
+			expect(findSemanticDifference(content, output, 'input.js', removedCalls)).toBeNull();
+		});
+
+		it('reports other changes in the output', () => {
+			const content = 'const a = 1;\nconsole.log(a);\nfoo(a);\n';
+			const { removedCalls } = removeLogs(content, 'input.js', ast);
+
+			expect(
+				findSemanticDifference(content, 'const a = 2;\nfoo(a);\n', 'input.js', removedCalls)
+			).toBe('NumericLiteral at line 1 changed');
+		});
+
+		it('reports code removed beyond the calls', () => {
+			const content = 'console.log(1);\nfoo();\nbar();\n';
+			const { removedCalls } = removeLogs(content, 'input.js', ast);
+
+			expect(findSemanticDifference(content, 'bar();\n', 'input.js', removedCalls)).not.toBeNull();
+		});
+	});
+
+	it('reports a removed statement body that swallowed the next statement', () => {
+		expect(
+			findSemanticDifference('if (a) console.log(1);\nfoo();', 'if (a) foo();', 'input.js', [
+				{ start: 7, end: 22 }
+			])
+		).toBe('BlockStatement at line 1 became ExpressionStatement');
+	});
+
+	it('reports declared calls that are not in the original', () => {
+		expect(
+			findSemanticDifference('foo();\nbar();\n', 'foo();\n', 'input.js', [{ start: 8, end: 13 }])
+		).toBe('no removable call found at line 2');
+	});
+
+	it('reports outputs that no longer parse', () => {
+		expect(findSemanticDifference('foo();\n', 'foo(;\n', 'input.js')).toMatch(
+			/^the output no longer parses/
+		);
+	});
+
+	describe('JSX comment containers', () => {
+		it('accepts removed comment containers', () => {
+			const content =
+				'export const A = () => (\n\t<div>\n\t\t{/* heading */}\n\t\t<p>a{/* inline */}b</p>\n\t</div>\n);\n';
+			const output = removeComments(content, 'input.jsx');
+
+			expect(output).not.toContain('heading');
+			expect(output).not.toContain('inline');
+			expect(findSemanticDifference(content, output, 'input.jsx')).toBeNull();
+		});
+
+		it('reports changed text next to a removed container', () => {
+			expect(
+				findSemanticDifference(
+					'const a = <p>a{/* note */}b</p>;\n',
+					'const a = <p>a c</p>;\n',
+					'input.jsx'
+				)
+			).not.toBeNull();
+		});
+
+		it('reports removed expression containers', () => {
+			expect(
+				findSemanticDifference('const a = <p>{value}</p>;\n', 'const a = <p></p>;\n', 'input.jsx')
+			).not.toBeNull();
+		});
+	});
+});
@@ -0,0 +1,450 @@
+import { Node } from '@babel/types';
+import path from 'path';
+import { DefaultTreeAdapterMap, parseFragment } from 'parse5';
+import postcss, { ChildNode as StyleNode } from 'postcss';
+import { LanguageTokenizer } from './language-tokenizer';
+import { LanguageDefinition, getLanguage } from './languages';
+import { isSfcFile, isolateSfcBlock, splitSfc } from './sfc';
+import {
+	MARKUP_EXTENSIONS,
+	SCRIPT_EXTENSIONS,
+	STYLE_EXTENSIONS,
+	parseScript
+} from './syntax-validator';
+
+type MarkupNode = DefaultTreeAdapterMap['childNode'];
+type Normalizer = (content: string, removedCalls: Map<number, number>) => unknown[];
+
+export interface RemovedCall {
+	start: number;
+	end: number;
+}
+
+const IGNORED_SCRIPT_KEYS = new Set([
+	'start',
+	'end',
+	'loc',
+	'range',
+	'extra',
+	'comments',
+	'leadingComments',
+	'trailingComments',
+	'innerComments',
+	'tokens',
+	'errors'
+]);
+
+const EMPTY_BLOCK = { type: 'BlockStatement', body: [], directives: [] };
+const VOID_ZERO = {
+	type: 'UnaryExpression',
+	operator: 'void',
+	prefix: true,
+	argument: { type: 'NumericLiteral', value: 0 }
+};
+
+const lines = new WeakMap<object, number>();
+
+export class SemanticVerificationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'SemanticVerificationError';
+	}
+}
+
+export function findSemanticDifference(
+	original: string,
+	output: string,
+	filePath: string,
+	removedCalls: RemovedCall[] = []
+): string | null {
+	const normalize = getNormalizer(filePath);
+	if (!normalize) {
+		return null;
+	}
+
+	const pending = new Map(removedCalls.map(call => [call.start, call.end]));
+	let before: unknown[];
+	try {
+		before = normalize(original, pending);
+	} catch {
+		return null;
+	}
+
+	if (pending.size > 0) {
+		const [start] = pending.keys();
+		return `no removable call found at line ${lineAt(original, start)}`;
+	}
+
+	let after: unknown[];
+	try {
+		after = normalize(output, new Map());
+	} catch (error) {
+		return `the output no longer parses: ${(error as Error).message}`;
+	}
+
+	return findDifference(before, after, null, 1);
+}
+
+export class SemanticVerifier {
+	verify(
+		filePath: string,
+		original: string,
+		output: string,
+		removedCalls: RemovedCall[] = []
+	): void {
+		if (original === output) {
+			return;
+		}
+
+		const difference = findSemanticDifference(original, output, filePath, removedCalls);
+		if (!difference) {
+			return;
+		}
+
+		throw new SemanticVerificationError(
+			`Rewritten ${filePath} changed more than it removed (${difference}); the file was left unchanged`
+		);
+	}
+}
+
+function getNormalizer(filePath: string): Normalizer | null {
+	const extension = path.extname(filePath).slice(1).toLowerCase();
+
+	if (SCRIPT_EXTENSIONS.includes(extension)) {
+		return (content, removedCalls) => normalizeScript(content, extension, removedCalls);
+	}
+	if (STYLE_EXTENSIONS.includes(extension)) {
+		return normalizeStyle;
+	}
+	if (MARKUP_EXTENSIONS.includes(extension)) {
+		return normalizeMarkup;
+	}
+	if (isSfcFile(filePath)) {
+		return (content, removedCalls) => normalizeSfc(content, filePath, removedCalls);
+	}
+
+	const language = getLanguage(filePath);
+	return language ? content => normalizeCodeLines(content, language) : null;
+}
+
+function normalizeScript(
+	content: string,
+	lang: string,
+	removedCalls: Map<number, number>
+): unknown[] {
+	const program = parseScript(content, lang).program;
+	return [normalizeScriptNode(program, removedCalls, null, false)];
+}
+
+function normalizeScriptNode(
+	node: Node,
+	removedCalls: Map<number, number>,
+	parent: Node | null,
+	inList: boolean
+): unknown {
+	if (node.type === 'EmptyStatement') {
+		return inList ? undefined : EMPTY_BLOCK;
+	}
+	if (node.type === 'ExpressionStatement' && takeRemovedCall(node.expression, removedCalls)) {
+		return inList ? undefined : EMPTY_BLOCK;
+	}
+
+	const isArrowBody = parent?.type === 'ArrowFunctionExpression' && parent.body === node;
+	if (takeRemovedCall(node, removedCalls)) {
+		return isArrowBody ? EMPTY_BLOCK : VOID_ZERO;
+	}
+	if (isArrowBody && isVoidZero(node)) {
+		return EMPTY_BLOCK;
+	}
+
+	const result: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(node)) {
+		if (IGNORED_SCRIPT_KEYS.has(key)) {
+			continue;
+		}
+
+		if (Array.isArray(value)) {
+			result[key] = (key === 'children' ? normalizeJsxChildren(value) : value)
+				.map(item =>
+					isScriptNode(item) ? normalizeScriptNode(item, removedCalls, node, true) : item
+				)
+				.filter(item => item !== undefined);
+		} else if (isScriptNode(value)) {
+			result[key] = normalizeScriptNode(value, removedCalls, node, false);
+		} else {
+			result[key] = value;
+		}
+	}
+
+	if (node.loc) {
+		lines.set(result, node.loc.start.line);
+	}
+	return result;
+}
+
+function takeRemovedCall(node: Node, removedCalls: Map<number, number>): boolean {
+	if (
+		(node.type !== 'CallExpression' && node.type !== 'OptionalCallExpression') ||
+		node.start == null ||
+		node.end == null ||
+		!removedCalls.has(node.start) ||
+		node.end > removedCalls.get(node.start)!
+	) {
+		return false;
+	}
+
+	removedCalls.delete(node.start);
+	return true;
+}
+
+function isVoidZero(node: Node): boolean {
+	return (
+		node.type === 'UnaryExpression' &&
+		node.operator === 'void' &&
+		node.argument.type === 'NumericLiteral' &&
+		node.argument.value === 0
+	);
+}
+
+function isScriptNode(value: unknown): value is Node {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as { type?: unknown }).type === 'string'
+	);
+}
+
+function normalizeJsxChildren(children: Node[]): Node[] {
+	const result: Node[] = [];
+
+	for (const child of children) {
+		if (child.type === 'JSXExpressionContainer' && child.expression.type === 'JSXEmptyExpression') {
+			continue;
+		}
+
+		const previous = result[result.length - 1];
+		if (child.type === 'JSXText' && previous?.type === 'JSXText') {
+			previous.value += child.value;
+		} else {
+			result.push(child.type === 'JSXText' ? { ...child } : child);
+		}
+	}
+
+	for (const child of result) {
+		if (child.type === 'JSXText') {
+			child.value = cleanJsxText(child.value);
+		}
+	}
+	return result.filter(child => child.type !== 'JSXText' || child.value !== '');
+}
+
+function cleanJsxText(value: string): string {
+	const textLines = value.split(/\r\n|\n|\r/);
+	if (textLines.length === 1) {
+		return value;
+	}
+
+	return textLines
+		.map((line, index) => {
+			const text = index > 0 ? line.replace(/^[ \t]+/, '') : line;
+			return index < textLines.length - 1 ? text.replace(/[ \t]+$/, '') : text;
+		})
+		.filter(text => text !== '')
+		.join(' ');
+}
+
+function normalizeStyle(content: string): unknown[] {
+	return normalizeStyleNodes(postcss.parse(content).nodes);
+}
+
+function normalizeStyleNodes(nodes: StyleNode[]): unknown[] {
+	return nodes
+		.filter(node => node.type !== 'comment')
+		.map(node => {
+			let result: Record<string, unknown>;
+			if (node.type === 'decl') {
+				result = {
+					type: 'declaration',
+					prop: node.prop,
+					value: collapseWhitespace(node.value),
+					important: Boolean(node.important)
+				};
+			} else if (node.type === 'rule') {
+				result = {
+					type: 'rule',
+					selector: collapseWhitespace(node.selector),
+					nodes: normalizeStyleNodes(node.nodes)
+				};
+			} else {
+				result = {
+					type: `@${node.name}`,
+					params: collapseWhitespace(node.params),
+					nodes: node.nodes ? normalizeStyleNodes(node.nodes) : null
+				};
+			}
+
+			if (node.source?.start) {
+				lines.set(result, node.source.start.line);
+			}
+			return result;
+		});
+}
+
+function normalizeMarkup(content: string): unknown[] {
+	const fragment = parseFragment(content, { sourceCodeLocationInfo: true });
+	return normalizeMarkupNodes(fragment.childNodes);
+}
+
+function normalizeMarkupNodes(nodes: MarkupNode[]): unknown[] {
+	const result: Array<Record<string, unknown>> = [];
+
+	for (const node of nodes) {
+		if (node.nodeName === '#comment' || node.nodeName === '#documentType') {
+			continue;
+		}
+
+		const previous = result[result.length - 1];
+		if (node.nodeName === '#text' && 'value' in node) {
+			if (previous?.type === 'text') {
+				previous.value += node.value;
+			} else {
+				result.push({ type: 'text', value: node.value });
+			}
+			continue;
+		}
+
+		if (!('tagName' in node)) {
+			continue;
+		}
+
+		const children = node.tagName === 'template' && 'content' in node ? node.content : node;
+		const element: Record<string, unknown> = {
+			type: `<${node.tagName}>`,
+			attributes: node.attrs.map(attribute => `${attribute.name}=${attribute.value}`),
+			children: normalizeMarkupNodes(children.childNodes)
+		};
+		if (node.sourceCodeLocation) {
+			lines.set(element, node.sourceCodeLocation.startLine);
+		}
+		result.push(element);
+	}
+
+	for (const node of result) {
+		if (node.type === 'text') {
+			node.value = collapseWhitespace(node.value as string);
+		}
+	}
+	return result;
+}
+
+function normalizeSfc(
+	content: string,
+	filePath: string,
+	removedCalls: Map<number, number>
+): unknown[] {
+	return splitSfc(content, filePath).map(block => {
+		const text = content.slice(block.start, block.end);
+		const line = lineAt(content, block.start);
+		let nodes: unknown[];
+
+		if (block.type === 'script' || block.type === 'frontmatter') {
+			nodes = normalizeScript(isolateSfcBlock(content, block), block.lang, removedCalls);
+		} else if (block.type === 'style' && STYLE_EXTENSIONS.includes(block.lang)) {
+			nodes = normalizeStyle(text);
+		} else if (block.type === 'markup') {
+			nodes = [collapseWhitespace(text.replace(/<!--[\s\S]*?-->/g, ' '))];
+		} else {
+			nodes = [collapseWhitespace(text)];
+		}
+
+		const result = { type: `${block.type} block`, lang: block.lang, nodes };
+		lines.set(result, line);
+		return result;
+	});
+}
+
+function normalizeCodeLines(content: string, language: LanguageDefinition): unknown[] {
+	const code = new LanguageTokenizer(language)
+		.tokenize(content)
+		.map(token => (token.type === 'comment' ? token.value.replace(/[^\n]/g, '') : token.value))
+		.join('');
+
+	return code.split('\n').flatMap((text, index) => {
+		const indent = text.match(/^[ \t]*/)![0];
+		const rest = text
+			.slice(indent.length)
+			.replace(/[ \t]+/g, ' ')
+			.trimEnd();
+		if (!rest) {
+			return [];
+		}
+
+		const result = { type: 'code', text: indent + rest };
+		lines.set(result, index + 1);
+		return [result];
+	});
+}
+
+function findDifference(
+	before: unknown,
+	after: unknown,
+	node: unknown,
+	line: number
+): string | null {
+	if (typeof before === 'object' && before !== null) {
+		line = lines.get(before) ?? line;
+	}
+
+	if (Array.isArray(before) && Array.isArray(after)) {
+		for (let index = 0; index < Math.max(before.length, after.length); index++) {
+			if (index >= after.length) {
+				return `${describe(before[index])} at line ${lineOf(before[index], line)} is missing`;
+			}
+			if (index >= before.length) {
+				return `unexpected ${describe(after[index])} after line ${line}`;
+			}
+
+			const difference = findDifference(before[index], after[index], node, line);
+			if (difference) {
+				return difference;
+			}
+		}
+		return null;
+	}
+
+	if (isRecord(before) && isRecord(after)) {
+		if (before.type !== after.type) {
+			return `${describe(before)} at line ${line} became ${describe(after)}`;
+		}
+
+		for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+			const difference = findDifference(before[key], after[key], before, line);
+			if (difference) {
+				return difference;
+			}
+		}
+		return null;
+	}
+
+	return before === after ? null : `${describe(node)} at line ${line} changed`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+	return isRecord(value) && typeof value.type === 'string' ? value.type : 'code';
+}
+
+function lineOf(value: unknown, fallback: number): number {
+	return (typeof value === 'object' && value !== null && lines.get(value)) || fallback;
+}
+
+function lineAt(content: string, position: number): number {
+	return content.slice(0, position).split('\n').length;
+}
+
+function collapseWhitespace(value: string): string {
+	return value.replace(/\s+/g, ' ');
+}
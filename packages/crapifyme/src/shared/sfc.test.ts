@@ -0,0 +1,80 @@
+import { findSfcComments, isolateSfcBlock, splitSfc } from './sfc';
+
+function describeBlocks(content: string, filePath: string): string[] {
+	return splitSfc(content, filePath).map(
+		block => `${block.type}:${block.lang}:${content.slice(block.start, block.end)}`
+	);
+}
+
+describe('splitSfc', () => {
+	it('splits a Vue file into markup, script and style blocks', () => {
+		const content =
+			'<template><p>Hi</p></template>\n<script setup lang="ts">\nconst a = 1;\n</script>\n<style scoped lang="scss">\n.a {}\n</style>\n';
+		expect(describeBlocks(content, 'App.vue')).toEqual([
+			'markup:html:<template><p>Hi</p></template>\n<script setup lang="ts">',
+			'script:ts:\nconst a = 1;\n',
+			'markup:html:</script>\n<style scoped lang="scss">',
+			'style:scss:\n.a {}\n',
+			'markup:html:</style>\n'
+		]);
+	});
+
+	it('reads Astro frontmatter as TypeScript', () => {
+		expect(describeBlocks('---\nconst a = 1;\n---\n<h1>{a}</h1>\n', 'page.astro')).toEqual([
+			'markup:html:---\n',
+			'frontmatter:ts:const a = 1;\n',
+			'markup:html:---\n<h1>{a}</h1>\n'
+		]);
+	});
+
+	it('keeps non-script types and unknown languages as raw blocks', () => {
+		const content =
+			'<script type="application/ld+json">{"a": 1}</script><script lang="coffee">a = 1</script>';
+		expect(splitSfc(content, 'App.svelte').filter(block => block.type !== 'markup')).toMatchObject([
+			{ type: 'raw', lang: 'application/ld+json' },
+			{ type: 'raw', lang: 'coffee' }
+		]);
+	});
+
+	it('treats module scripts as JavaScript', () => {
+		expect(
+			splitSfc('<script type="module">a()</script>', 'App.svelte').find(
+				block => block.type === 'script'
+			)
+		).toMatchObject({ lang: 'js' });
+	});
+
+	it('ignores tags inside markup comments and self-closing scripts', () => {
+		const content = '<!-- <script>a()</script> --><script src="x.js" /><div></div>';
+		expect(describeBlocks(content, 'App.vue')).toEqual([`markup:html:${content}`]);
+	});
+
+	it('reads an unclosed script to the end of the file', () => {
+		expect(describeBlocks('<script>\na()', 'App.vue')).toEqual([
+			'markup:html:<script>',
+			'script:js:\na()'
+		]);
+	});
+});
+
+describe('findSfcComments', () => {
+	it('finds markup comments and style comments outside strings and urls', () => {
+		const content =
+			'<!-- a --><style lang="scss">\n.a { content: "/* no */"; background: url(//x/y.png); } // b\n/* c */</style>';
+		const comments = splitSfc(content, 'App.vue').flatMap(block =>
+			findSfcComments(content, block).map(comment => content.slice(comment.start, comment.end))
+		);
+		expect(comments).toEqual(['<!-- a -->', '// b', '/* c */']);
+	});
+});
+
+describe('isolateSfcBlock', () => {
+	it('blanks other blocks while keeping offsets and line breaks', () => {
+		const content = '<template>\n<p/>\n</template>\n<script>\na()\n</script>\n';
+		const block = splitSfc(content, 'App.vue').find(candidate => candidate.type === 'script')!;
+		const isolated = isolateSfcBlock(content, block);
+
+		expect(isolated).toHaveLength(content.length);
+		expect(isolated.split('\n').map(line => line.trim())).toEqual(['', '', '', '', 'a()', '', '']);
+	});
+});
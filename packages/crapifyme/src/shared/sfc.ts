@@ -0,0 +1,209 @@
+import path from 'path';
+
+export const SFC_EXTENSIONS = ['vue', 'svelte', 'astro'];
+
+export type SfcBlockType = 'frontmatter' | 'script' | 'style' | 'markup' | 'raw';
+
+export interface SfcBlock {
+	type: SfcBlockType;
+	lang: string;
+	start: number;
+	end: number;
+}
+
+export interface SfcComment {
+	start: number;
+	end: number;
+}
+
+const SCRIPT_LANGS: Record<string, string> = {
+	js: 'js',
+	javascript: 'js',
+	jsx: 'jsx',
+	ts: 'ts',
+	typescript: 'ts',
+	tsx: 'tsx'
+};
+
+const SCRIPT_TYPE_PATTERN =
+	/^(?:module|(?:text|application)\/(?:javascript|typescript|ecmascript))$/i;
+
+const LINE_COMMENT_STYLE_LANGS = ['scss', 'sass', 'less', 'styl', 'stylus'];
+
+const OPEN_TAG_PATTERN = /<!--|<(script|style)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi;
+
+const ATTRIBUTE_PATTERN = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const FRONTMATTER_FENCE_PATTERN = /^---[^\S\r\n]*(?:\r?\n|$)/gm;
+
+export function isSfcFile(filePath: string): boolean {
+	return SFC_EXTENSIONS.includes(path.extname(filePath).slice(1).toLowerCase());
+}
+
+export function splitSfc(content: string, filePath: string): SfcBlock[] {
+	const extension = path.extname(filePath).slice(1).toLowerCase();
+	const blocks: SfcBlock[] = [];
+	let position = 0;
+
+	const pushMarkup = (end: number) => {
+		if (end > position) {
+			blocks.push({ type: 'markup', lang: 'html', start: position, end });
+		}
+	};
+
+	if (extension === 'astro') {
+		const frontmatter = findFrontmatter(content);
+		if (frontmatter) {
+			pushMarkup(frontmatter.start);
+			blocks.push({ type: 'frontmatter', lang: 'ts', ...frontmatter });
+			position = frontmatter.end;
+		}
+	}
+
+	const tagPattern = new RegExp(OPEN_TAG_PATTERN.source, 'gi');
+	tagPattern.lastIndex = position;
+	let match: RegExpExecArray | null;
+
+	while ((match = tagPattern.exec(content))) {
+		if (!match[1]) {
+			const close = content.indexOf('-->', match.index + 4);
+			tagPattern.lastIndex = close === -1 ? content.length : close + 3;
+			continue;
+		}
+
+		if (match[2].trimEnd().endsWith('/')) {
+			continue;
+		}
+
+		const tag = match[1].toLowerCase();
+		const start = match.index + match[0].length;
+		const closePattern = new RegExp(`</${tag}\\s*>`, 'gi');
+		closePattern.lastIndex = start;
+		const close = closePattern.exec(content);
+		const end = close ? close.index : content.length;
+
+		pushMarkup(start);
+		blocks.push({ ...classifyBlock(tag, parseAttributes(match[2]), extension), start, end });
+		position = end;
+		tagPattern.lastIndex = close ? close.index + close[0].length : content.length;
+	}
+
+	pushMarkup(content.length);
+	return blocks;
+}
+
+export function findSfcComments(content: string, block: SfcBlock): SfcComment[] {
+	if (block.type === 'markup') {
+		return findMarkupComments(content, block.start, block.end);
+	}
+	if (block.type === 'style') {
+		return findStyleComments(content, block);
+	}
+	return [];
+}
+
+export function isolateSfcBlock(content: string, block: SfcBlock): string {
+	const blank = (text: string) => text.replace(/[^\r\n]/g, ' ');
+	return (
+		blank(content.slice(0, block.start)) +
+		content.slice(block.start, block.end) +
+		blank(content.slice(block.end))
+	);
+}
+
+function findFrontmatter(content: string): Pick<SfcBlock, 'start' | 'end'> | null {
+	const leading = content.match(/^\s*/)![0].length;
+	const fence = new RegExp(FRONTMATTER_FENCE_PATTERN.source, 'gm');
+	fence.lastIndex = leading;
+
+	const open = fence.exec(content);
+	if (!open || open.index !== leading) {
+		return null;
+	}
+
+	const start = open.index + open[0].length;
+	const close = fence.exec(content);
+	return close ? { start, end: close.index } : null;
+}
+
+function parseAttributes(source: string): Map<string, string> {
+	const attributes = new Map<string, string>();
+	for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+		attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4] ?? '');
+	}
+	return attributes;
+}
+
+function classifyBlock(
+	tag: string,
+	attributes: Map<string, string>,
+	extension: string
+): Pick<SfcBlock, 'type' | 'lang'> {
+	if (tag === 'style') {
+		return { type: 'style', lang: (attributes.get('lang') || 'css').toLowerCase() };
+	}
+
+	const type = attributes.get('type');
+	if (type && !SCRIPT_TYPE_PATTERN.test(type)) {
+		return { type: 'raw', lang: type };
+	}
+
+	const lang = attributes.get('lang')?.toLowerCase();
+	if (lang) {
+		return SCRIPT_LANGS[lang]
+			? { type: 'script', lang: SCRIPT_LANGS[lang] }
+			: { type: 'raw', lang };
+	}
+
+	return { type: 'script', lang: extension === 'astro' ? 'ts' : 'js' };
+}
+
+function findMarkupComments(content: string, start: number, end: number): SfcComment[] {
+	const comments: SfcComment[] = [];
+	let position = content.indexOf('<!--', start);
+
+	while (position !== -1 && position < end) {
+		const close = content.indexOf('-->', position + 4);
+		const commentEnd = close === -1 || close + 3 > end ? end : close + 3;
+		comments.push({ start: position, end: commentEnd });
+		position = content.indexOf('<!--', commentEnd);
+	}
+
+	return comments;
+}
+
+function findStyleComments(content: string, block: SfcBlock): SfcComment[] {
+	const comments: SfcComment[] = [];
+	const lineComments = LINE_COMMENT_STYLE_LANGS.includes(block.lang);
+	let i = block.start;
+
+	while (i < block.end) {
+		const char = content[i];
+		const next = content[i + 1];
+
+		if (char === '"' || char === "'") {
+			i++;
+			while (i < block.end && content[i] !== char && content[i] !== '\n') {
+				i += content[i] === '\\' ? 2 : 1;
+			}
+			i++;
+		} else if (/^url\(/i.test(content.slice(i, i + 4)) && !/[\w-]/.test(content[i - 1] || '')) {
+			const close = content.indexOf(')', i);
+			i = close === -1 || close >= block.end ? block.end : close + 1;
+		} else if (char === '/' && next === '*') {
+			const close = content.indexOf('*/', i + 2);
+			const end = close === -1 || close + 2 > block.end ? block.end : close + 2;
+			comments.push({ start: i, end });
+			i = end;
+		} else if (char === '/' && next === '/' && lineComments) {
+			let end = content.indexOf('\n', i);
+			end = end === -1 || end > block.end ? block.end : end;
+			comments.push({ start: i, end });
+			i = end;
+		} else {
+			i++;
+		}
+	}
+
+	return comments;
+}
@@ -0,0 +1,97 @@
+import remapping from '@ampproject/remapping';
+import MagicString from 'magic-string';
+import { TextEdit } from './types';
+
+export interface RawSourceMap {
+	version: 3;
+	file?: string;
+	sourceRoot?: string;
+	sources: string[];
+	sourcesContent?: (string | null)[];
+	names: string[];
+	mappings: string;
+}
+
+export interface TransformOutput {
+	code: string;
+	map: RawSourceMap;
+}
+
+export interface SourceMapInput {
+	source?: string;
+	inputMap?: RawSourceMap | null;
+}
+
+export interface SourceMapOptions {
+	source: string;
+	file?: string;
+	includeContent?: boolean;
+}
+
+export function applyEdits(
+	original: string,
+	edits: TextEdit[],
+	options: SourceMapOptions
+): TransformOutput {
+	const magic = new MagicString(original);
+
+	for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+		if (edit.start === edit.end) {
+			if (edit.replacement) magic.appendLeft(edit.start, edit.replacement);
+		} else if (edit.replacement) {
+			magic.overwrite(edit.start, edit.end, edit.replacement);
+		} else {
+			magic.remove(edit.start, edit.end);
+		}
+	}
+
+	const map = magic.generateMap({
+		source: options.source,
+		file: options.file,
+		includeContent: options.includeContent !== false,
+		hires: 'boundary'
+	});
+
+	return { code: magic.toString(), map: JSON.parse(map.toString()) as RawSourceMap };
+}
+
+export function applyTextEdits(original: string, edits: TextEdit[]): string {
+	const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+	const parts: string[] = [];
+	let position = 0;
+
+	for (const edit of sorted) {
+		parts.push(original.slice(position, edit.start), edit.replacement);
+		position = Math.max(position, edit.end);
+	}
+	parts.push(original.slice(position));
+
+	return parts.join('');
+}
+
+export function createSourceMap(
+	original: string,
+	edits: TextEdit[],
+	input: SourceMapInput & { source: string }
+): RawSourceMap {
+	const { map } = applyEdits(original, edits, { source: input.source });
+	return input.inputMap ? composeSourceMaps([input.inputMap, map]) : map;
+}
+
+export function composeSourceMaps(maps: Array<RawSourceMap | null | undefined>): RawSourceMap {
+	const chain = maps.filter((map): map is RawSourceMap => Boolean(map));
+	if (chain.length === 0) {
+		throw new Error('At least one source map is required');
+	}
+	if (chain.length === 1) {
+		return chain[0];
+	}
+
+	const composed = remapping(chain.reverse(), () => null);
+	return JSON.parse(composed.toString()) as RawSourceMap;
+}
+
+export function toInlineSourceMapComment(map: RawSourceMap): string {
+	const encoded = Buffer.from(JSON.stringify(map)).toString('base64');
+	return `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${encoded}`;
+}
@@ -0,0 +1,24 @@
+import { ErrorCategory } from './error-handler';
+import { SyntaxValidationError, SyntaxValidator } from './syntax-validator';
+
+describe('SyntaxValidator', () => {
+	it('records rewrites that no longer parse as parsing errors', () => {
+		const validator = new SyntaxValidator();
+
+		expect(() => validator.validate('a.js', 'cond && log(x);\n', 'cond && \n')).toThrow(
+			SyntaxValidationError
+		);
+		expect(validator.getErrors()).toEqual([
+			expect.objectContaining({ category: ErrorCategory.PARSING, context: 'a.js' })
+		]);
+	});
+
+	it('accepts output that parses as well as the original', () => {
+		const validator = new SyntaxValidator();
+
+		validator.validate('a.js', 'log(x);\nrun();\n', 'run();\n');
+		validator.validate('a.css', 'a { color: red }', 'a { }');
+
+		expect(validator.getErrors()).toEqual([]);
+	});
+});
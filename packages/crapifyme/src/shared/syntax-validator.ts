@@ -0,0 +1,128 @@
+import path from 'path';
+import { ParserPlugin, parse } from '@babel/parser';
+import { File } from '@babel/types';
+import { parseFragment } from 'parse5';
+import postcss from 'postcss';
+import { ErrorCategory, ErrorHandler, ErrorSeverity, ParseError } from './error-handler';
+import { Logger } from './logger';
+import { isSfcFile, isolateSfcBlock, splitSfc } from './sfc';
+
+export const SCRIPT_EXTENSIONS = ['js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts'];
+export const STYLE_EXTENSIONS = ['css', 'scss', 'less', 'pcss', 'postcss'];
+export const MARKUP_EXTENSIONS = ['html', 'htm'];
+
+export class SyntaxValidationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'SyntaxValidationError';
+	}
+}
+
+export function findSyntaxErrors(content: string, filePath: string): string[] | null {
+	const extension = path.extname(filePath).slice(1).toLowerCase();
+
+	if (SCRIPT_EXTENSIONS.includes(extension)) {
+		return findScriptErrors(content, extension);
+	}
+	if (STYLE_EXTENSIONS.includes(extension)) {
+		return findStyleErrors(content);
+	}
+	if (MARKUP_EXTENSIONS.includes(extension)) {
+		return findMarkupErrors(content);
+	}
+	if (!isSfcFile(filePath)) {
+		return null;
+	}
+
+	const errors = findMarkupErrors(content);
+	for (const block of splitSfc(content, filePath)) {
+		if (block.type === 'script' || block.type === 'frontmatter') {
+			errors.push(...findScriptErrors(isolateSfcBlock(content, block), block.lang));
+		} else if (block.type === 'style' && STYLE_EXTENSIONS.includes(block.lang)) {
+			errors.push(...findStyleErrors(content.slice(block.start, block.end)));
+		}
+	}
+	return errors;
+}
+
+export class SyntaxValidator {
+	private readonly errorHandler: ErrorHandler;
+
+	constructor(logger: Logger = new Logger(false, true, false, true)) {
+		this.errorHandler = new ErrorHandler(logger);
+	}
+
+	validate(filePath: string, original: string, output: string): void {
+		if (original === output) {
+			return;
+		}
+
+		const before = findSyntaxErrors(original, filePath);
+		if (!before) {
+			return;
+		}
+
+		const after = findSyntaxErrors(output, filePath)!;
+		if (after.length <= before.length) {
+			return;
+		}
+
+		const reason = after.find(error => !before.includes(error)) || after[after.length - 1];
+		const message = `Rewritten ${filePath} no longer parses (${reason}); the file was left unchanged`;
+		this.errorHandler.recordError({
+			category: ErrorCategory.PARSING,
+			severity: ErrorSeverity.HIGH,
+			message,
+			context: filePath
+		});
+		throw new SyntaxValidationError(message);
+	}
+
+	getErrors(): ParseError[] {
+		return this.errorHandler.getErrors();
+	}
+}
+
+export function parseScript(content: string, lang: string): File {
+	const isTypeScript = /^[mc]?tsx?$/.test(lang);
+	const plugins: ParserPlugin[] = ['decorators-legacy'];
+	if (isTypeScript) {
+		plugins.push('typescript');
+	}
+	if (!isTypeScript || lang === 'tsx') {
+		plugins.push('jsx');
+	}
+
+	return parse(content, {
+		sourceType: 'module',
+		allowImportExportEverywhere: true,
+		allowReturnOutsideFunction: true,
+		plugins
+	});
+}
+
+function findScriptErrors(content: string, lang: string): string[] {
+	try {
+		parseScript(content, lang);
+		return [];
+	} catch (error) {
+		return [(error as Error).message];
+	}
+}
+
+function findStyleErrors(content: string): string[] {
+	try {
+		postcss.parse(content);
+		return [];
+	} catch (error) {
+		return [(error as Error).message];
+	}
+}
+
+function findMarkupErrors(content: string): string[] {
+	const errors: string[] = [];
+	parseFragment(content, {
+		onParseError: error => errors.push(`${error.code} at ${error.startLine}:${error.startCol}`)
+	});
+	return errors;
+}
@@ -0,0 +1,17 @@
+import { InvalidArgumentError } from 'commander';
+
+export function parseCountOption(value: string): number {
+	const count = Number(value);
+	if (!Number.isInteger(count) || count < 0) {
+		throw new InvalidArgumentError('Expected a non-negative integer.');
+	}
+	return count;
+}
+
+export function parsePercentOption(value: string): number {
+	const percent = Number(value.trim().replace(/%$/, ''));
+	if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+		throw new InvalidArgumentError('Expected a percentage between 0 and 100.');
+	}
+	return percent;
+}
@@ -158,7 +158,7 @@ export class SimpleTokenizer {
 
 	private isConsoleLogStart(): boolean {
 		const remaining = this.content.substring(this.position);
-		return /^console\s*\.\s*(log|error|warn|debug|info|assert|trace|time|timeEnd)\s*\(/.test(
+		return /^console\s*(\.\s*[A-Za-z_$][\w$]*|\[\s*(['"])[A-Za-z_$][\w$]*\2\s*\])\s*\(/.test(
 			remaining
 		);
 	}
@@ -1,3 +1,7 @@
+import { RawSourceMap } from './source-map';
+
+export type WarningHandler = (message: string) => void;
+
 export enum ExitCode {
 	Success = 0,
 	IssuesFound = 1,
@@ -18,6 +22,16 @@ export interface ToolConfig extends CrapifyConfig {
 	[key: string]: any;
 }
 
+export interface ProjectConfig extends ToolConfig {
+	comments?: ToolConfig;
+	logs?: ToolConfig;
+	imports?: ToolConfig;
+	chars?: ToolConfig;
+	svg?: ToolConfig;
+	deps?: ToolConfig;
+	base64?: ToolConfig;
+}
+
 export interface FileStats {
 	filesProcessed: number;
 	itemsRemoved: number;
@@ -32,11 +46,24 @@ export interface CommentStats {
 	errors: Array<{ file: string; error: string }>;
 }
 
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+export interface TextEdit {
+	start: number;
+	end: number;
+	replacement: string;
+}
+
 export interface ProcessResult {
 	content: string;
 	modified: boolean;
 	removed: number;
 	preserved: number;
+	edits?: TextEdit[];
+	map?: RawSourceMap;
 	errors?: any[];
 	warnings?: string[];
 	hasErrors?: boolean;
@@ -82,6 +109,7 @@ export enum CommentCategory {
 	TOOLING = 'tooling',
 	DOCUMENTATION = 'documentation',
 	CUSTOM = 'custom',
+	DIRECTIVE = 'directive',
 	REGULAR = 'regular'
 }
 